@@ -3,10 +3,11 @@
 
 -- 1. Pointer table — maps logical names to physical tables
 CREATE TABLE IF NOT EXISTS storage (
-  id          TEXT PRIMARY KEY,
+  id          TEXT NOT NULL,
   ptr         TEXT NOT NULL,
   owner       TEXT NOT NULL,
-  permissions INT  NOT NULL DEFAULT 7
+  permissions INT  NOT NULL DEFAULT 7,
+  PRIMARY KEY (id, owner)
 );
 
 -- 2. Transaction registry — tracks active sessions
@@ -18,15 +19,54 @@ CREATE TABLE IF NOT EXISTS trxs (
 
 -- 3. Demo data table — physical table for "tasks"
 CREATE TABLE IF NOT EXISTS tbl_tasks_demo (
-  id              TEXT PRIMARY KEY,
+  id              TEXT NOT NULL,
   data            JSONB NOT NULL DEFAULT '{}',
   _txid           BIGINT NOT NULL,
   _deleted_txid   BIGINT,
   _owner          TEXT NOT NULL,
-  _order          SERIAL
+  _order          SERIAL,
+  PRIMARY KEY (id, _txid)
 );
 
 CREATE INDEX IF NOT EXISTS idx_tasks_txid
   ON tbl_tasks_demo (_txid);
 CREATE INDEX IF NOT EXISTS idx_tasks_owner
   ON tbl_tasks_demo (_owner);
+
+-- 4. Upgrade a tbl_tasks_demo created before row versioning. Its primary
+--    key was id alone, but every write now appends an (id, _txid) version
+--    and upserts ON CONFLICT (id, _txid). No-op on tables created above.
+ALTER TABLE tbl_tasks_demo ADD COLUMN IF NOT EXISTS _order SERIAL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_index i
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY (i.indkey)
+    WHERE i.indrelid = 'tbl_tasks_demo'::regclass AND i.indisprimary AND a.attname = '_txid'
+  ) THEN
+    ALTER TABLE tbl_tasks_demo DROP CONSTRAINT tbl_tasks_demo_pkey;
+    ALTER TABLE tbl_tasks_demo ADD PRIMARY KEY (id, _txid);
+  END IF;
+  IF (SELECT column_default FROM information_schema.columns
+      WHERE table_name = 'tbl_tasks_demo' AND column_name = '_order') IS NULL THEN
+    CREATE SEQUENCE tbl_tasks_demo__order_seq OWNED BY tbl_tasks_demo._order;
+    PERFORM setval('tbl_tasks_demo__order_seq', COALESCE(MAX(_order), 0) + 1, false) FROM tbl_tasks_demo;
+    ALTER TABLE tbl_tasks_demo ALTER COLUMN _order SET DEFAULT nextval('tbl_tasks_demo__order_seq');
+  END IF;
+END $$;
+
+-- 5. Upgrade a storage table keyed by id alone. Tables are registered once
+--    per owner, and on the old key a second owner's row conflicts on id and
+--    is skipped. Same statement as STORAGE_UPGRADE_SQL in src/cli/provision.ts.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_index i
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY (i.indkey)
+    WHERE i.indrelid = 'storage'::regclass AND i.indisprimary AND a.attname = 'owner'
+  ) THEN
+    ALTER TABLE storage DROP CONSTRAINT IF EXISTS storage_pkey;
+    ALTER TABLE storage ADD PRIMARY KEY (id, owner);
+  END IF;
+END $$;
@@ -8,7 +8,10 @@
 import { createServer, type IncomingMessage, type ServerResponse, type Server } from 'http';
 import type { RuntimeAdapter, GatewayOptions, GatewayRequest, GatewayResponse } from './types';
 import { SessionDO } from '../runtime/SessionDO';
-import { HttpError } from '../runtime/http';
+import { HttpError, TimeoutError, ValidationError } from '../runtime/http';
+import { createStorage } from '../storage/Storage';
+import { perms } from '../security/permissions';
+import type { Context } from '../storage/TableProxy';
 
 // ── Request parsing ──────────────────────────────────────
 
@@ -32,7 +35,7 @@ function readBody(req: IncomingMessage): Promise<string> {
 
 // ── Gateway dispatch ─────────────────────────────────────
 
-const sessionDO = new SessionDO();
+const defaultSessionDO = new SessionDO();
 
 /**
  * Handle a single gateway request (platform-agnostic).
@@ -76,19 +79,34 @@ export async function handleRequest(
     }
 
     // Build context
-    const tx = await sessionDO.beginTransaction(req.headers['x-owner'] ?? 'anonymous');
-    const ctx = {
-      ...tx,
+    const sessionDO = adapter.sessionDO ?? defaultSessionDO;
+    const tx = await sessionDO.beginTransaction(req.headers['x-owner'] ?? 'anonymous', {
+      isolation: route.meta.isolation === 'snapshot' ? 'snapshot' : 'default',
+      readOnly: route.meta.readonly === true || route.meta.perm === perms.R__,
+    });
+    const ctx: Context = {
+      sid: tx.sid,
+      owner: tx.owner,
+      currentTxid: tx.currentTxid,
+      snapshot: tx.snapshot,
+      upperTxid: tx.upperTxid,
+      readOnly: tx.readOnly,
+      tx,
+      savepoint: () => tx.savepoint(),
+      rollbackTo: (savepoint) => tx.rollbackTo(savepoint),
       perm: typeof route.meta.perm === 'number' ? route.meta.perm : 0b111,
       method: req.method,
       path: req.path,
       headers: req.headers,
       route: { name: fnName, egroup: route.meta.egroup as string | undefined },
     };
+    ctx.storage = createStorage(adapter.pg, ctx, adapter.registry);
 
     try {
       const args = Array.isArray(req.body) ? req.body : [req.body];
       const result = await route.handler(ctx, args);
+      // The reaper may have rolled it back and forgotten it meanwhile
+      if (tx.aborted) throw new TimeoutError(`Transaction ${tx.sid} was aborted`);
       await sessionDO.commit(tx.sid);
       return {
         status: 200,
@@ -96,11 +114,16 @@ export async function handleRequest(
         body: JSON.stringify({ result }),
       };
     } catch (err) {
+      await sessionDO.rollback(tx.sid);
       if (err instanceof HttpError) {
         return {
           status: err.status,
           headers: { 'Content-Type': 'application/json', ...corsHeaders },
-          body: JSON.stringify({ error: err.code, message: err.message }),
+          body: JSON.stringify({
+            error: err.code,
+            message: err.message,
+            ...(err instanceof ValidationError ? { issues: err.issues } : {}),
+          }),
         };
       }
       return {
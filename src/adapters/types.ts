@@ -6,6 +6,9 @@
 
 import type { DOStub, KVStore } from '../runtime/shared';
 import type { PGClient, Context } from '../storage/TableProxy';
+import type { SessionDO } from '../runtime/SessionDO';
+import type { ShardedSessionDO } from '../runtime/ShardedSessionDO';
+import type { StorageMetadata } from '../storage/Storage';
 
 /**
  * A resolved backend route handler.
@@ -31,6 +34,19 @@ export interface RuntimeAdapter {
 
   /** Registered @backend route handlers */
   routes: Map<string, RouteHandler>;
+
+  /**
+   * Transaction coordinator. Pass `new SessionDO(pg)` so txids survive
+   * restarts, or a `ShardedSessionDO` to allocate txids per shard;
+   * defaults to a process-local, in-memory SessionDO.
+   */
+  sessionDO?: SessionDO | ShardedSessionDO;
+
+  /**
+   * Table metadata from `generateStorageRegistry`, applied to the proxies
+   * of `ctx.storage` (primary keys, `@perm` bits, shapes, `@ref` relations).
+   */
+  registry?: StorageMetadata;
 }
 
 /**
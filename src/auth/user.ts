@@ -1,13 +1,15 @@
 import type { PGClient } from '../storage/TableProxy';
 import type { AuthUser } from './types';
 
-const USERS_PTR = '__users';
-const SYSTEM_OWNER = '__system';
+/** Logical `storage` id of the auth users table */
+export const USERS_TABLE = '__users';
+/** Owner of framework tables such as `__users` */
+export const SYSTEM_OWNER = '__system';
 
 async function resolveUsersTable(pg: PGClient): Promise<string> {
   const result = await pg.query(
     'SELECT ptr FROM storage WHERE id = $1 AND owner = $2',
-    [USERS_PTR, SYSTEM_OWNER]
+    [USERS_TABLE, SYSTEM_OWNER]
   );
   const row = result.rows[0];
   if (!row) throw new Error('Users table not registered in storage');
@@ -1,7 +1,18 @@
 #!/usr/bin/env node
 import { deploy } from './deploy.js';
 import { scaffoldProject } from './init.js';
-import { createMigration } from './migrate.js';
+import {
+  applyMigration,
+  createEmptyLockFile,
+  createMigration,
+  planSchemaMigration,
+  readLockFile,
+  writeLockFile,
+} from './migrate.js';
+import { generateProvisionScript, planProvisioning } from './provision.js';
+import { generateStorageRegistry } from '../compiler/storage-registry.js';
+import { generateGcScript } from '../runtime/gc.js';
+import { readFileSync } from 'fs';
 import { execSync } from 'child_process';
 
 const args = process.argv.slice(2);
@@ -24,6 +35,17 @@ Usage:
   kontract init <name> [--hyperdrive]     Create a new project
   kontract deploy [options]               Build and deploy to Cloudflare
   kontract migrate create <name>          Create a new migration file
+  kontract migrate plan <schema.ts>       Diff interfaces against kontract.lock.json,
+                                          print the SQL and record it in the lock file
+  kontract provision <schema.ts> --owner <id> [--auth] [--no-owner-scope]
+                                          Print SQL creating the tables and registering
+                                          them in storage; new ptrs go in the lock file.
+                                          --no-owner-scope makes new ptrs single-owner
+  kontract gc [--batch-size <n>] [--unsafe-horizon <txid>]
+                                          Print SQL removing the MVCC versions no
+                                          transaction registered in trxs can read.
+                                          --unsafe-horizon collects below a given txid
+                                          instead, even if a transaction still reads it
 
 Deploy options:
   --env <name>          Target environment (production, staging)
@@ -100,10 +122,65 @@ async function main(): Promise<void> {
       console.log(`Created migration v${result.version}: ${result.path}`);
       return;
     }
-    console.error('Usage: kontract migrate create <name>');
+    if (sub === 'plan') {
+      const file = args[2];
+      if (!file) {
+        console.error('Usage: kontract migrate plan <schema-file>');
+        process.exit(1);
+      }
+      const { schemas } = generateStorageRegistry(readFileSync(file, 'utf-8'));
+      const lock = readLockFile('.') ?? createEmptyLockFile();
+      const { migration, skipped } = planSchemaMigration(lock, schemas);
+      for (const table of skipped) {
+        console.warn(`Skipping ${table}: no ptr in kontract.lock.json`);
+      }
+      if (!migration) {
+        console.log('Schema is up to date.');
+        return;
+      }
+      if (migration.sql) console.log(migration.sql);
+      writeLockFile('.', applyMigration(lock, migration, schemas));
+      console.log(`Recorded migration v${migration.version} in kontract.lock.json`);
+      return;
+    }
+    console.error('Usage: kontract migrate <create|plan> ...');
     process.exit(1);
   }
 
+  if (command === 'provision') {
+    const file = args[1];
+    const owner = param('owner');
+    if (!file || !owner) {
+      console.error('Usage: kontract provision <schema-file> --owner <owner> [--auth] [--no-owner-scope]');
+      process.exit(1);
+    }
+    const { schemas } = generateStorageRegistry(readFileSync(file, 'utf-8'));
+    const plan = planProvisioning(readLockFile('.') ?? createEmptyLockFile(), schemas, {
+      auth: flag('auth'),
+      ownerScoped: !flag('no-owner-scope'),
+    });
+    console.log(generateProvisionScript(plan.tables, owner));
+    if (plan.created.length > 0) {
+      writeLockFile('.', plan.lock);
+      console.error(`Recorded ptrs for ${plan.created.join(', ')} in kontract.lock.json`);
+    }
+    return;
+  }
+
+  if (command === 'gc') {
+    const horizon = param('unsafe-horizon');
+    if (args.includes('--horizon') || (args.includes('--unsafe-horizon') && !/^\d+$/.test(horizon ?? ''))) {
+      console.error('Usage: kontract gc [--batch-size <n>] [--unsafe-horizon <txid>]');
+      process.exit(1);
+    }
+    const batchSize = param('batch-size');
+    console.log(generateGcScript({
+      batchSize: batchSize ? Number(batchSize) : undefined,
+      unsafeHorizon: horizon === undefined ? undefined : BigInt(horizon),
+    }));
+    return;
+  }
+
   console.error(`Unknown command: ${command}`);
   console.error('Run `kontract --help` for usage.');
   process.exit(1);
@@ -88,10 +88,11 @@ ${hyperdriveBinding}`,
   files.push({
     path: 'sql/init.sql',
     content: `CREATE TABLE IF NOT EXISTS storage (
-  id          TEXT PRIMARY KEY,
+  id          TEXT NOT NULL,
   ptr         TEXT NOT NULL,
   owner       TEXT NOT NULL,
-  permissions INT  NOT NULL DEFAULT 7
+  permissions INT  NOT NULL DEFAULT 7,
+  PRIMARY KEY (id, owner)
 );
 
 CREATE TABLE IF NOT EXISTS trxs (
@@ -1,18 +1,28 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join, resolve } from 'path';
+import { createHash } from 'crypto';
 
-export type Schema = Record<string, { type: string; primkey?: boolean; perm?: number }>;
+/** `index` marks a field declared with `@index`; it gets an expression index on `data->'field'`. */
+export type Schema = Record<string, { type: string; primkey?: boolean; perm?: number; index?: boolean; ref?: string }>;
+export interface MigrationChange { type: string; table: string; field?: string; fieldType?: string }
+export interface Migration { version: number; timestamp?: string; changes: MigrationChange[]; sql: string }
 export interface LockFile {
   version: number;
-  tables: Record<string, { ptr: string; schema: Schema; hash: string }>;
-  migrations: Array<{ version: number; timestamp?: string; changes: Array<{ type: string; table: string; field?: string; fieldType?: string }>; sql: string }>;
+  /** `ownerScoped: false` marks ptrs provisioned for a single owner */
+  tables: Record<string, { ptr: string; schema: Schema; hash: string; ownerScoped?: false }>;
+  migrations: Migration[];
 }
 
 export function diffSchemas(oldS: Schema, newS: Schema): { safe: boolean; changes: Array<{ type: string; field: string }> } {
   const changes: Array<{ type: string; field: string }> = [];
   for (const k of Object.keys(newS)) {
-    if (!oldS[k]) changes.push({ type: 'add_field', field: k });
-    else if (oldS[k].type !== newS[k].type) return { safe: false, changes: [] };
+    if (!oldS[k]) {
+      changes.push({ type: 'add_field', field: k });
+      if (newS[k].index) changes.push({ type: 'add_index', field: k });
+    } else if (oldS[k].type !== newS[k].type) return { safe: false, changes: [] };
+    else if (!oldS[k].index !== !newS[k].index) {
+      changes.push({ type: newS[k].index ? 'add_index' : 'drop_index', field: k });
+    }
   }
   for (const k of Object.keys(oldS)) {
     if (!newS[k]) return { safe: false, changes: [] };
@@ -24,6 +34,21 @@ export function generateSQLAddField(ptr: string, field: string, fieldType: strin
   return `ALTER TABLE ${ptr} ADD COLUMN ${field} ${mapType(fieldType)};`;
 }
 
+function indexName(ptr: string, field: string): string {
+  if (!/^[a-zA-Z0-9_]+$/.test(ptr) || !/^[a-zA-Z0-9_]+$/.test(field)) {
+    throw new Error(`Invalid index target: ${ptr}.${field}`);
+  }
+  return `idx_${ptr}_${field}`;
+}
+
+export function generateSQLCreateIndex(ptr: string, field: string): string {
+  return `CREATE INDEX IF NOT EXISTS ${indexName(ptr, field)} ON ${ptr} ((data->'${field}'));`;
+}
+
+export function generateSQLDropIndex(ptr: string, field: string): string {
+  return `DROP INDEX IF EXISTS ${indexName(ptr, field)};`;
+}
+
 function mapType(t: string): string {
   switch (t) {
     case 'string': return 'TEXT';
@@ -84,9 +109,62 @@ export function createMigration(cwd: string, name: string): { path: string; vers
   return { path: filepath, version };
 }
 
-export function applyMigration(lock: LockFile, migration: { version: number; changes: Array<{ type: string; table: string; field?: string; fieldType?: string }>; sql: string }): LockFile {
+export function schemaHash(schema: Schema): string {
+  return `sha256:${createHash('sha256').update(JSON.stringify(schema)).digest('hex')}`;
+}
+
+/**
+ * Diff compiler-extracted schemas against the lock file and collect the
+ * safe changes into one migration. Tables without a lock entry have no
+ * ptr yet and are reported in `skipped`; unsafe changes throw. Records
+ * live in the `data` column, so an added field needs no SQL: only
+ * `@index` changes produce statements.
+ */
+export function planSchemaMigration(
+  lock: LockFile,
+  schemas: Record<string, Schema>
+): { migration: Migration | null; skipped: string[] } {
+  const changes: MigrationChange[] = [];
+  const sql: string[] = [];
+  const skipped: string[] = [];
+  for (const [table, schema] of Object.entries(schemas)) {
+    const entry = lock.tables[table];
+    if (!entry) {
+      skipped.push(table);
+      continue;
+    }
+    const diff = diffSchemas(entry.schema, schema);
+    if (!diff.safe) {
+      throw new Error(`Unsafe schema change on ${table}: create a manual migration`);
+    }
+    for (const change of diff.changes) {
+      const fieldType = schema[change.field].type;
+      if (change.type === 'add_field') {
+        changes.push({ type: change.type, table, field: change.field, fieldType });
+      } else {
+        changes.push({ type: change.type, table, field: change.field });
+        sql.push(change.type === 'add_index'
+          ? generateSQLCreateIndex(entry.ptr, change.field)
+          : generateSQLDropIndex(entry.ptr, change.field));
+      }
+    }
+  }
+  if (changes.length === 0) return { migration: null, skipped };
+  return { migration: { version: lock.version + 1, changes, sql: sql.join('\n') }, skipped };
+}
+
+/**
+ * Record a migration in the lock file. When `schemas` is given, the
+ * schemas of tables already in the lock are replaced as well.
+ */
+export function applyMigration(lock: LockFile, migration: Migration, schemas?: Record<string, Schema>): LockFile {
+  const tables = { ...lock.tables };
+  for (const [table, schema] of Object.entries(schemas ?? {})) {
+    if (tables[table]) tables[table] = { ...tables[table], schema, hash: schemaHash(schema) };
+  }
   return {
     ...lock,
+    tables,
     version: migration.version,
     migrations: [...lock.migrations, { ...migration, timestamp: new Date().toISOString() }],
   };
@@ -0,0 +1,197 @@
+import { randomBytes } from 'crypto';
+import { SYSTEM_OWNER, USERS_TABLE } from '../auth/user';
+import type { PGClient } from '../storage/TableProxy';
+import { generateSQLCreateIndex, schemaHash, type LockFile, type Schema } from './migrate';
+
+/** A logical table and the physical table its `storage` rows point at. */
+export interface ProvisionedTable {
+  table: string;
+  ptr: string;
+  schema: Schema;
+  /** Registers the table for this owner instead of the one being provisioned (`__users`) */
+  owner?: string;
+  /** The ptr is not filtered by `_owner` at runtime, so it may only be registered for one owner */
+  ownerScoped?: false;
+}
+
+export interface ProvisionOptions {
+  /** Also provision the `__users` table used by auth */
+  auth?: boolean;
+  /**
+   * New ptrs are shared between owners and read through owner-scoped
+   * proxies (default). `false` records them as single-owner instead, for
+   * deployments that set `ownerScoped: false` in their registry.
+   */
+  ownerScoped?: boolean;
+}
+
+export const STORAGE_TABLE_SQL = `CREATE TABLE IF NOT EXISTS storage (
+  id          TEXT NOT NULL,
+  ptr         TEXT NOT NULL,
+  owner       TEXT NOT NULL,
+  permissions INT  NOT NULL DEFAULT 7,
+  PRIMARY KEY (id, owner)
+);`;
+
+/**
+ * Moves a `storage` table created with `id TEXT PRIMARY KEY` to the
+ * `(id, owner)` key. On the old key, registering a table for a second owner
+ * conflicts on `id` alone and is silently skipped. No-op once upgraded.
+ */
+export const STORAGE_UPGRADE_SQL = `DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_index i
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY (i.indkey)
+    WHERE i.indrelid = 'storage'::regclass AND i.indisprimary AND a.attname = 'owner'
+  ) THEN
+    ALTER TABLE storage DROP CONSTRAINT IF EXISTS storage_pkey;
+    ALTER TABLE storage ADD PRIMARY KEY (id, owner);
+  END IF;
+END $$;`;
+
+/** Random physical name for a logical table, e.g. `tbl_users_3f9a0c12b4de`. */
+export function generatePtr(table: string): string {
+  const base = table.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+  return `tbl_${base}_${randomBytes(6).toString('hex')}`;
+}
+
+function createTableStatements(ptr: string, schema: Schema): string[] {
+  if (!/^[a-zA-Z0-9_]+$/.test(ptr)) throw new Error(`Invalid ptr: ${ptr}`);
+  const statements = [
+    `CREATE TABLE IF NOT EXISTS ${ptr} (
+  id            TEXT   NOT NULL,
+  data          JSONB  NOT NULL,
+  _order        BIGSERIAL,
+  _txid         BIGINT NOT NULL,
+  _deleted_txid BIGINT,
+  _owner        TEXT   NOT NULL,
+  PRIMARY KEY (id, _txid)
+);`,
+    `CREATE INDEX IF NOT EXISTS idx_${ptr}__owner ON ${ptr} (_owner);`,
+    `CREATE INDEX IF NOT EXISTS idx_${ptr}__order ON ${ptr} (_order);`,
+  ];
+  for (const [field, f] of Object.entries(schema)) {
+    if (f.index) statements.push(generateSQLCreateIndex(ptr, field));
+  }
+  return statements;
+}
+
+/** DDL for a ptr table with the columns TableProxy reads and writes, plus its `@index` indexes. */
+export function generateSQLCreateTable(ptr: string, schema: Schema = {}): string {
+  return createTableStatements(ptr, schema).join('\n');
+}
+
+function checkPermissions(permissions: number): void {
+  if (!Number.isInteger(permissions) || permissions < 0 || permissions > 0b111) {
+    throw new Error(`Invalid permissions: ${permissions}`);
+  }
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** `storage` row mapping `table` to `ptr` for `owner`; an existing row is left alone. */
+export function generateSQLRegisterTable(table: string, ptr: string, owner: string, permissions = 0b111): string {
+  checkPermissions(permissions);
+  return `INSERT INTO storage (id, ptr, owner, permissions)
+VALUES (${quote(table)}, ${quote(ptr)}, ${quote(owner)}, ${permissions})
+ON CONFLICT DO NOTHING;`;
+}
+
+function foreignOwnerError(table: string, ptr: string): Error {
+  return new Error(`Table ${table} (${ptr}) is not owner-scoped and is already registered for another owner`);
+}
+
+/** PL/pgSQL guard aborting the script when a single-owner ptr already belongs to someone else. */
+function generateSQLCheckSoleOwner(table: string, ptr: string, owner: string): string {
+  return `DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM storage WHERE ptr = ${quote(ptr)} AND owner <> ${quote(owner)}) THEN
+    RAISE EXCEPTION ${quote(foreignOwnerError(table, ptr).message)};
+  END IF;
+END $$;`;
+}
+
+/**
+ * Assign ptrs to the tables in `schemas` that the lock file does not know
+ * yet and record them there, so later runs and `migrate plan` reuse the
+ * same physical tables. Tables already in the lock keep their ptr and the
+ * schema their migrations were planned against.
+ */
+export function planProvisioning(
+  lock: LockFile,
+  schemas: Record<string, Schema>,
+  options: ProvisionOptions = {}
+): { lock: LockFile; tables: ProvisionedTable[]; created: string[] } {
+  const entries = { ...lock.tables };
+  const tables: ProvisionedTable[] = [];
+  const created: string[] = [];
+  const wanted: Array<[string, Schema]> = Object.entries(schemas);
+  if (options.auth) wanted.push([USERS_TABLE, {}]);
+  for (const [table, schema] of wanted) {
+    if (!entries[table]) {
+      entries[table] = { ptr: generatePtr(table), schema, hash: schemaHash(schema) };
+      if (options.ownerScoped === false && table !== USERS_TABLE) entries[table].ownerScoped = false;
+      created.push(table);
+    }
+    const { ptr, schema: locked, ownerScoped } = entries[table];
+    if (table === USERS_TABLE) tables.push({ table, ptr, schema: locked, owner: SYSTEM_OWNER });
+    else if (ownerScoped === false) tables.push({ table, ptr, schema: locked, ownerScoped: false });
+    else tables.push({ table, ptr, schema: locked });
+  }
+  return { lock: { ...lock, tables: entries }, tables, created };
+}
+
+/**
+ * Idempotent SQL script creating the tables (upgrading an `id`-only
+ * `storage` key) and registering them for `owner`. The script aborts if a single-owner ptr is registered for
+ * someone else already.
+ */
+export function generateProvisionScript(tables: ProvisionedTable[], owner: string, permissions = 0b111): string {
+  const statements = ['BEGIN;', STORAGE_TABLE_SQL, STORAGE_UPGRADE_SQL];
+  for (const t of tables) {
+    statements.push(generateSQLCreateTable(t.ptr, t.schema));
+    if (t.ownerScoped === false) statements.push(generateSQLCheckSoleOwner(t.table, t.ptr, t.owner ?? owner));
+    statements.push(generateSQLRegisterTable(t.table, t.ptr, t.owner ?? owner, permissions));
+  }
+  statements.push('COMMIT;');
+  return statements.join('\n\n');
+}
+
+/**
+ * Create the tables and register them for `owner` through `pg`. Safe to
+ * repeat: existing tables, indexes and `storage` rows are kept, and an
+ * `id`-only `storage` key is upgraded to `(id, owner)`. Returns the
+ * tables that got a new `storage` row. Throws before registering a
+ * single-owner ptr that another owner already uses.
+ */
+export async function provisionTables(
+  pg: PGClient,
+  tables: ProvisionedTable[],
+  owner: string,
+  permissions = 0b111
+): Promise<string[]> {
+  checkPermissions(permissions);
+  await pg.query(STORAGE_TABLE_SQL);
+  await pg.query(STORAGE_UPGRADE_SQL);
+  const registered: string[] = [];
+  for (const t of tables) {
+    for (const sql of createTableStatements(t.ptr, t.schema)) await pg.query(sql);
+    if (t.ownerScoped === false) {
+      const others = await pg.query(
+        'SELECT owner FROM storage WHERE ptr = $1 AND owner <> $2 LIMIT 1',
+        [t.ptr, t.owner ?? owner]
+      );
+      if (others.rows.length > 0) throw foreignOwnerError(t.table, t.ptr);
+    }
+    const result = await pg.query(
+      `INSERT INTO storage (id, ptr, owner, permissions) VALUES ($1, $2, $3, $4)
+       ON CONFLICT DO NOTHING RETURNING id`,
+      [t.table, t.ptr, t.owner ?? owner, permissions]
+    );
+    if (result.rows.length > 0) registered.push(t.table);
+  }
+  return registered;
+}
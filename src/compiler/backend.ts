@@ -1,6 +1,7 @@
 import { parse } from '@babel/parser';
 import traverse, { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
+import { perms } from '../security/permissions';
 
 export interface BackendTransformResult {
   client: string;
@@ -91,6 +92,11 @@ function serializeLiteral(node: t.Expression): unknown {
   if (t.isStringLiteral(node)) return node.value;
   if (t.isNumericLiteral(node)) return node.value;
   if (t.isBooleanLiteral(node)) return node.value;
+  // `perm: perms.R__` resolves to the bits, so the gateway can see a read-only route
+  if (t.isMemberExpression(node) && t.isIdentifier(node.object, { name: 'perms' })
+      && t.isIdentifier(node.property) && Object.prototype.hasOwnProperty.call(perms, node.property.name)) {
+    return perms[node.property.name as keyof typeof perms];
+  }
   return null;
 }
 
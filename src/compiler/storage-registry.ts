@@ -1,45 +1,272 @@
 import ts from 'typescript';
+import type { Schema } from '../cli/migrate';
+import { perms } from '../security/permissions';
+import { RESERVED_TABLE_KEYS } from '../storage/Storage';
+import type { FieldShape, TypeShape } from '../storage/validation';
 
 export interface RegistryResult {
   dts: string;
   keys: string[];
+  /** Per-table field schemas, keyed like `keys` */
+  schemas: Record<string, Schema>;
+  /** Per-table primary key field (spec §9.2) */
+  primaryKeys: Record<string, string>;
+  /** Per-table `@perm` bits of the fields that declare one (spec §8.2.3) */
+  fieldPerms: Record<string, Record<string, number>>;
+  /** Per-table runtime validators, checked by TableProxy before writes */
+  shapes: Record<string, TypeShape>;
+  /** Per-table `@ref` fields and the table each one points to */
+  relations: Record<string, Record<string, string>>;
 }
 
-export function generateStorageRegistry(source: string): RegistryResult {
+interface FieldDecorator {
+  name: string;
+  arg?: string;
+}
+
+const DECORATOR_RE = /@([A-Za-z_]\w*)(?:\s*\(((?:[^()]|\([^()]*\))*)\))?/g;
+
+/**
+ * TypeScript does not parse decorators on interface members, so field
+ * decorators (`@primkey`, `@perm(...)`, `@index`, `@ref(...)`) are blanked out of
+ * interface bodies before parsing. Offsets are preserved; each run of
+ * decorators is keyed by the position of the member it precedes.
+ */
+function extractFieldDecorators(source: string): { source: string; decorators: Map<number, FieldDecorator[]> } {
+  const decorators = new Map<number, FieldDecorator[]>();
+  const chars = source.split('');
+  const header = /\binterface\s+\w+[^{]*\{/g;
+  let m;
+  while ((m = header.exec(source)) !== null) {
+    let depth = 1;
+    let end = m.index + m[0].length;
+    while (end < source.length && depth > 0) {
+      if (source[end] === '{') depth++;
+      else if (source[end] === '}') depth--;
+      end++;
+    }
+    const body = source.slice(m.index + m[0].length, end);
+    const offset = m.index + m[0].length;
+    let d;
+    DECORATOR_RE.lastIndex = 0;
+    while ((d = DECORATOR_RE.exec(body)) !== null) {
+      const start = offset + d.index;
+      for (let i = start; i < start + d[0].length; i++) chars[i] = ' ';
+      let next = start + d[0].length;
+      while (next < source.length && /\s/.test(source[next])) next++;
+      if (source[next] === '@') {
+        // stacked decorators: attach to the member after the last one
+        const rest = source.slice(next);
+        const stacked = /^(?:@[A-Za-z_]\w*(?:\s*\((?:[^()]|\([^()]*\))*\))?\s*)+/.exec(rest);
+        next += stacked ? stacked[0].length : 0;
+      }
+      const list = decorators.get(next) ?? [];
+      list.push({ name: d[1], arg: d[2]?.trim() });
+      decorators.set(next, list);
+    }
+    header.lastIndex = end;
+  }
+  return { source: chars.join(''), decorators };
+}
+
+function permValue(arg: string | undefined): number | undefined {
+  if (!arg) return undefined;
+  const named = /^perms\.(\w+)$/.exec(arg);
+  if (named && named[1] in perms) return perms[named[1] as keyof typeof perms];
+  const n = Number(arg);
+  if (Number.isInteger(n) && n >= 0 && n <= 0b111) return n;
+  throw new Error(`Invalid @perm argument: ${arg}`);
+}
+
+/**
+ * Spec §9.2: the `@primkey` field, else the first field. The chosen field
+ * is flagged `primkey` in the schema.
+ */
+function inferPrimaryKey(name: string, schema: Schema): string {
+  const fields = Object.keys(schema);
+  const marked = fields.filter((f) => schema[f].primkey);
+  if (marked.length > 1) {
+    throw new Error(`Interface ${name} has more than one @primkey field`);
+  }
+  const key = marked[0] ?? fields[0];
+  if (!key) throw new Error(`Interface ${name} has no properties`);
+  schema[key].primkey = true;
+  return key;
+}
+
+/** `@ref(Customer)` or `@ref('customer')`: the target's table key. */
+function refTarget(arg: string | undefined, owner: string, field: string): string {
+  const target = arg?.replace(/^['"]|['"]$/g, '').toLowerCase();
+  if (!target) throw new Error(`@ref on ${owner}.${field} needs a target interface`);
+  return target;
+}
+
+const ANY: TypeShape = { kind: 'any' };
+
+/**
+ * Runtime shape of a type node. References to interfaces in the same
+ * source are inlined; recursive references and types we cannot check
+ * (Date, generics, external names) accept anything.
+ */
+function shapeOf(
+  node: ts.TypeNode | undefined,
+  interfaces: Map<string, ts.InterfaceDeclaration>,
+  seen: Set<string>
+): TypeShape {
+  if (!node) return ANY;
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword: return { kind: 'string' };
+    case ts.SyntaxKind.NumberKeyword: return { kind: 'number' };
+    case ts.SyntaxKind.BooleanKeyword: return { kind: 'boolean' };
+    case ts.SyntaxKind.NullKeyword: return { kind: 'null' };
+  }
+  if (ts.isParenthesizedTypeNode(node)) return shapeOf(node.type, interfaces, seen);
+  if (ts.isLiteralTypeNode(node)) {
+    const lit = node.literal;
+    if (lit.kind === ts.SyntaxKind.NullKeyword) return { kind: 'null' };
+    if (lit.kind === ts.SyntaxKind.TrueKeyword) return { kind: 'literal', value: true };
+    if (lit.kind === ts.SyntaxKind.FalseKeyword) return { kind: 'literal', value: false };
+    if (ts.isStringLiteral(lit)) return { kind: 'literal', value: lit.text };
+    if (ts.isNumericLiteral(lit)) return { kind: 'literal', value: Number(lit.text) };
+    return ANY;
+  }
+  if (ts.isArrayTypeNode(node)) return { kind: 'array', items: shapeOf(node.elementType, interfaces, seen) };
+  if (ts.isTypeLiteralNode(node)) return objectShape(node.members, interfaces, seen);
+  if (ts.isUnionTypeNode(node)) {
+    const options = node.types
+      .filter((t) => t.kind !== ts.SyntaxKind.UndefinedKeyword)
+      .map((t) => shapeOf(t, interfaces, seen));
+    return options.some((o) => o.kind === 'any') ? ANY : { kind: 'union', options };
+  }
+  if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+    const name = node.typeName.text;
+    if (name === 'Array' && node.typeArguments?.length === 1) {
+      return { kind: 'array', items: shapeOf(node.typeArguments[0], interfaces, seen) };
+    }
+    const decl = interfaces.get(name);
+    if (decl && !seen.has(name)) {
+      return objectShape(decl.members, interfaces, new Set([...seen, name]));
+    }
+  }
+  return ANY;
+}
+
+function objectShape(
+  members: ts.NodeArray<ts.TypeElement>,
+  interfaces: Map<string, ts.InterfaceDeclaration>,
+  seen: Set<string>
+): TypeShape {
+  const fields: Record<string, FieldShape> = {};
+  for (const member of members) {
+    if (!ts.isPropertySignature(member) || !member.name) continue;
+    const field = member.name.getText().replace(/^['"]|['"]$/g, '');
+    const optional = !!member.questionToken ||
+      (!!member.type && ts.isUnionTypeNode(member.type) &&
+        member.type.types.some((t) => t.kind === ts.SyntaxKind.UndefinedKeyword));
+    fields[field] = optional
+      ? { shape: shapeOf(member.type, interfaces, seen), optional }
+      : { shape: shapeOf(member.type, interfaces, seen) };
+  }
+  return { kind: 'object', fields };
+}
+
+function fieldType(node: ts.TypeNode | undefined): string {
+  if (!node) return 'unknown';
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword: return 'string';
+    case ts.SyntaxKind.NumberKeyword: return 'number';
+    case ts.SyntaxKind.BooleanKeyword: return 'boolean';
+    case ts.SyntaxKind.BigIntKeyword: return 'bigint';
+    default: return node.getText();
+  }
+}
+
+/**
+ * Table keys, types and metadata for the interfaces in `source`. With
+ * `sourceModule`, the `.d.ts` imports the interfaces from it (a path as
+ * written from the `.d.ts`, e.g. `'./schema'`), so they must be exported
+ * there; without it they must be global where the `.d.ts` is compiled.
+ */
+export function generateStorageRegistry(source: string, sourceModule?: string): RegistryResult {
   const fileName = 'virtual.ts';
+  const extracted = extractFieldDecorators(source);
   const compilerHost = ts.createCompilerHost({}, true);
   compilerHost.getSourceFile = (name) => {
     if (name === fileName) {
-      return ts.createSourceFile(name, source, ts.ScriptTarget.ES2020, true, ts.ScriptKind.TS);
+      return ts.createSourceFile(name, extracted.source, ts.ScriptTarget.ES2020, true, ts.ScriptKind.TS);
     }
     return undefined;
   };
   const program = ts.createProgram([fileName], { target: ts.ScriptTarget.ES2020 }, compilerHost);
   const sf = program.getSourceFile(fileName)!;
   const interfaces: Record<string, string> = {};
+  const schemas: Record<string, Schema> = {};
+  const primaryKeys: Record<string, string> = {};
+  const fieldPerms: Record<string, Record<string, number>> = {};
+  const shapes: Record<string, TypeShape> = {};
+  const relations: Record<string, Record<string, string>> = {};
+  const declarations = new Map<string, ts.InterfaceDeclaration>();
+  sf.forEachChild(node => {
+    if (ts.isInterfaceDeclaration(node)) declarations.set(node.name.text, node);
+  });
 
   sf.forEachChild(node => {
     if (ts.isInterfaceDeclaration(node)) {
       const name = node.name.text;
+      if (RESERVED_TABLE_KEYS.has(name.toLowerCase())) {
+        throw new Error(`Interface ${name} maps to table key '${name.toLowerCase()}', which ctx.storage reserves; rename it`);
+      }
       interfaces[name] = name;
+      const schema: Schema = {};
+      for (const member of node.members) {
+        if (!ts.isPropertySignature(member) || !member.name) continue;
+        const field = member.name.getText(sf).replace(/^['"]|['"]$/g, '');
+        schema[field] = { type: fieldType(member.type) };
+        for (const deco of extracted.decorators.get(member.getStart(sf)) ?? []) {
+          if (deco.name === 'primkey') schema[field].primkey = true;
+          else if (deco.name === 'index') schema[field].index = true;
+          else if (deco.name === 'perm') schema[field].perm = permValue(deco.arg);
+          else if (deco.name === 'ref') schema[field].ref = refTarget(deco.arg, name, field);
+        }
+      }
+      schemas[name.toLowerCase()] = schema;
+      primaryKeys[name.toLowerCase()] = inferPrimaryKey(name, schema);
+      fieldPerms[name.toLowerCase()] = Object.fromEntries(
+        Object.entries(schema)
+          .filter(([, f]) => f.perm !== undefined)
+          .map(([field, f]) => [field, f.perm as number])
+      );
+      relations[name.toLowerCase()] = Object.fromEntries(
+        Object.entries(schema)
+          .filter(([, f]) => f.ref !== undefined)
+          .map(([field, f]) => [field, f.ref as string])
+      );
+      shapes[name.toLowerCase()] = objectShape(node.members, declarations, new Set([name]));
     }
   });
 
   const keys = Object.keys(interfaces).map(k => k.toLowerCase());
+  for (const [table, refs] of Object.entries(relations)) {
+    for (const [field, target] of Object.entries(refs)) {
+      if (!keys.includes(target)) {
+        throw new Error(`@ref on ${table}.${field} names unknown interface '${target}'`);
+      }
+    }
+  }
+  // The import (or `export {}`) makes the file a module, so the block augments
+  // the package instead of declaring a new ambient module that shadows it.
+  const names = Object.keys(interfaces);
   const dts = [
-    `declare module 'kontract/runtime' {`,
+    sourceModule !== undefined && names.length > 0
+      ? `import type { ${names.join(', ')} } from '${sourceModule.replace(/[\\']/g, '\\$&')}';`
+      : `export {};`,
+    `declare module '@rand0mdevel0per/kontract' {`,
     `  interface StorageRegistry {`,
-    ...keys.map(k => `    ${k}: ${capitalize(k)};`),
-    `  }`,
-    `  interface Storage {`,
-    `    get<K extends keyof StorageRegistry>(key: K): TableProxy<StorageRegistry[K]>;`,
+    ...names.map(name => `    ${name.toLowerCase()}: ${name};`),
     `  }`,
     `}`
   ].join('\n');
 
-  return { dts, keys };
+  return { dts, keys, schemas, primaryKeys, fieldPerms, shapes, relations };
 }
 
-function capitalize(s: string): string {
-  return s.charAt(0).toUpperCase() + s.slice(1);
-}
@@ -35,15 +35,16 @@ RETURNS void AS $$
 DECLARE
   tbl RECORD;
 BEGIN
-  FOR tbl IN SELECT ptr FROM storage LOOP
+  FOR tbl IN SELECT DISTINCT ptr FROM storage LOOP
     EXECUTE format(
-      'DELETE FROM %I WHERE _txid < %L AND id IN (
-        SELECT id FROM %I WHERE _txid < %L
-        GROUP BY id HAVING COUNT(*) > 1
-        ORDER BY _txid ASC
+      'DELETE FROM %I WHERE _txid < %L AND (id, _owner, _txid) NOT IN (
+        SELECT id, _owner, MAX(_txid) FROM %I WHERE _txid < %L GROUP BY id, _owner
+      ) AND (id, _owner) IN (
+        SELECT id, _owner FROM %I WHERE _txid < %L
+        GROUP BY id, _owner HAVING COUNT(*) > 1
         LIMIT 1000
       )',
-      tbl.ptr, min_txid, tbl.ptr, min_txid
+      tbl.ptr, min_txid, tbl.ptr, min_txid, tbl.ptr, min_txid
     );
   END LOOP;
 END;
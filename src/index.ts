@@ -1,8 +1,13 @@
 export * from './storage/TableProxy';
+export * from './storage/query';
+export * from './storage/Storage';
 export * from './runtime/SessionDO';
+export * from './runtime/ShardedSessionDO';
+export * from './runtime/transaction';
 export * from './runtime/http';
 export * from './runtime/shared';
 export * from './runtime/pool';
+export * from './runtime/gc';
 export * from './security/permissions';
 export * from './protocol/raystream';
 export * from './protocol/message';
@@ -18,6 +23,7 @@ export * from './compiler/swc';
 export * from './middleware/inline';
 export * from './events/webhook';
 export * from './cli/migrate';
+export * from './cli/provision';
 export * from './auth/types';
 export * from './auth/jwt';
 export * from './auth/providers';
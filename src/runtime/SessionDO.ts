@@ -1,34 +1,643 @@
+import { Transaction, type IsolationMode } from './transaction';
+import { TimeoutError } from './http';
+import { ptrTables } from './gc';
+import type { PGClient } from '../storage/TableProxy';
+
+/**
+ * The txid high-water mark lives in a reserved `trxs` row, keeping the
+ * framework's footprint at the two tables of spec §7.3.1. Upserting makes
+ * the first allocation create it.
+ */
+export const TXID_HWM_SID = '__txid_hwm';
+
+const ALLOCATE_TXID_SQL = `INSERT INTO trxs (sid, owner, create_txid) VALUES ('${TXID_HWM_SID}', '__system', 1)
+  ON CONFLICT (sid) DO UPDATE SET create_txid = trxs.create_txid + 1
+  RETURNING create_txid`;
+
+/**
+ * A shard's txid block is registered as the `trxs` row `__block_<shard>`
+ * holding the next txid it will issue. Blocks are aligned to the block
+ * size, so the row alone tells where the block ends. The row's owner is
+ * the instance that reserved the block: an instance only issues from a
+ * block it still holds, so two instances with the same shard id never
+ * issue the same txid.
+ */
+export const TXID_BLOCK_PREFIX = '__block_';
+
+export const DEFAULT_TXID_BLOCK_SIZE = 64;
+
+/**
+ * `trxs` row `__pin_<sid>` holding the lowest txid a transaction's snapshot
+ * still needs, so `gcHorizon` on any instance keeps the versions it reads.
+ * Read-only transactions register only this row.
+ */
+export const TXID_PIN_PREFIX = '__pin_';
+
+/**
+ * `trxs` rows `__commit_<shard>` (`__commit_` without a shard) holding the
+ * highest txid the instance committed. A transaction sees txids up to the
+ * highest mark when it begins (`Transaction.upperTxid`), hiding those still
+ * in flight, so it sees every commit that finished before it began even if
+ * another shard issued a higher txid.
+ */
+export const TXID_COMMIT_PREFIX = '__commit_';
+
+/** `trxs.owner` of a session another instance is reverting; its own commit then fails. */
+export const REAPED_OWNER = '__reaped';
+
+/**
+ * Raise the high-water mark to the end of the next whole block and register
+ * its start for `$1`, held by instance `$3`.
+ */
+const RESERVE_BLOCK_SQL = `WITH hwm AS (
+  INSERT INTO trxs (sid, owner, create_txid) VALUES ('${TXID_HWM_SID}', '__system', $2::bigint)
+  ON CONFLICT (sid) DO UPDATE SET create_txid = ((trxs.create_txid + $2::bigint - 1) / $2::bigint + 1) * $2::bigint
+  RETURNING create_txid
+)
+INSERT INTO trxs (sid, owner, create_txid)
+SELECT $1, $3, create_txid - $2::bigint + 1 FROM hwm
+ON CONFLICT (sid) DO UPDATE SET owner = EXCLUDED.owner, create_txid = EXCLUDED.create_txid
+RETURNING create_txid`;
+
+/**
+ * Read the highest txid a transaction at `$1` sees, `$1 - 1` or the highest
+ * commit mark, and the sessions up to it for its snapshot. The oldest of
+ * them is pinned as `$2` (owner `$3`) in the same statement, so no GC run
+ * can slip between.
+ */
+const SNAPSHOT_SQL = `WITH top AS (
+  SELECT GREATEST($1::bigint - 1, COALESCE(MAX(create_txid), 0)) AS txid
+  FROM trxs WHERE starts_with(sid, '${TXID_COMMIT_PREFIX}')
+), seen AS (
+  SELECT sid, create_txid FROM trxs
+  WHERE create_txid <= (SELECT txid FROM top) AND sid <> '${TXID_HWM_SID}' AND NOT starts_with(sid, '${TXID_COMMIT_PREFIX}')
+), pin AS (
+  INSERT INTO trxs (sid, owner, create_txid)
+  SELECT $2, $3, MIN(create_txid) FROM seen WHERE NOT starts_with(sid, '${TXID_PIN_PREFIX}')
+  HAVING COUNT(*) > 0
+)
+SELECT top.txid AS top, seen.sid, seen.create_txid FROM top LEFT JOIN seen ON true`;
+
+/** Read all of `trxs` for a reader and pin the txids above the oldest one it cannot see. */
+const READER_SQL = `WITH seen AS (
+  SELECT sid, create_txid FROM trxs WHERE NOT starts_with(sid, '${TXID_COMMIT_PREFIX}')
+), pin AS (
+  INSERT INTO trxs (sid, owner, create_txid)
+  SELECT $1, $2, COALESCE(LEAST(
+    MIN(create_txid) FILTER (WHERE sid <> '${TXID_HWM_SID}' AND NOT starts_with(sid, '${TXID_PIN_PREFIX}')),
+    MAX(create_txid) FILTER (WHERE sid = '${TXID_HWM_SID}') + 1
+  ), 1) FROM seen
+)
+SELECT sid, create_txid FROM seen`;
+
+/**
+ * End session `$1` and its pin `$2` unless another instance reaped it, and
+ * raise this instance's commit mark `$3` to its txid `$4` in the same
+ * statement: transactions beginning once the writes are visible see them.
+ */
+const COMMIT_SQL = `WITH mark AS (
+  INSERT INTO trxs (sid, owner, create_txid) VALUES ($3, '__system', $4)
+  ON CONFLICT (sid) DO UPDATE SET create_txid = GREATEST(trxs.create_txid, EXCLUDED.create_txid)
+)
+DELETE FROM trxs WHERE sid IN ($1, $2) AND owner <> '${REAPED_OWNER}' RETURNING sid`;
+
+export const DEFAULT_MAX_TX_DURATION_MS = 60_000;
+
+export interface SessionDOOptions {
+  /**
+   * Allocate txids in blocks reserved for this shard instead of one at a
+   * time from the global counter (needs a `PGClient`). Give every running
+   * instance its own shard id: instances sharing one never issue the same
+   * txid, but take the block from each other on every begin.
+   */
+  shard?: string;
+  /** Txids per block (default 64); must be the same for every instance on a database */
+  blockSize?: number;
+  /** Age after which a transaction is aborted by `reap` or refused at commit (default 60 000) */
+  maxTxDurationMs?: number;
+  /** Failures of reaper runs started with `startReaper`; `reap()` callers get the rejection instead */
+  onReapError?: (err: unknown) => void;
+}
+
+export interface BeginOptions {
+  isolation?: IsolationMode;
+  /**
+   * Read at the current high-water mark instead of allocating a txid. The
+   * transaction is not registered in `trxs`, and TableProxy rejects writes.
+   */
+  readOnly?: boolean;
+}
+
+/** One entry of `listActive()`. */
+export interface ActiveTransaction {
+  sid: string;
+  owner: string;
+  txid: bigint;
+  isolation: IsolationMode;
+  readOnly: boolean;
+  startedAt: number;
+  ageMs: number;
+}
+
+function toBigInt(value: unknown): bigint {
+  return BigInt(String(value));
+}
+
+function randomId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random()}`;
+}
+
+function pinSid(sid: string): string {
+  return `${TXID_PIN_PREFIX}${sid}`;
+}
+
+/** Last txid of the aligned block containing `txid`. */
+function blockEnd(txid: bigint, size: bigint): bigint {
+  return ((txid + size - 1n) / size) * size;
+}
+
 export class SessionDO {
   private currentTxid: bigint = 0n;
-  private activeTxs = new Map<string, bigint>();
+  private activeTxs = new Map<string, Transaction>();
+  /** Read-only transactions: they pin the GC horizon but hide nothing from others */
+  private readers = new Map<string, Transaction>();
+  /**
+   * Reaped transactions whose handler has not called commit/rollback yet,
+   * with the time they were reaped. Writers keep their txid hidden until then.
+   */
+  private reaped = new Map<string, { tx: Transaction; at: number }>();
+  private restored?: Promise<void>;
+  private reaper?: ReturnType<typeof setInterval>;
+  private maxTxDurationMs: number;
+  private blockSize: bigint;
+  private blockSid?: string;
+  /** Owner of the block rows this instance reserves */
+  private instance = randomId();
+  private commitSid: string;
+  /** Unissued part of this shard's block */
+  private block?: { next: bigint; end: bigint };
+  private reserving?: Promise<void>;
+  /** Last `issue` statement; the next one waits for it */
+  private issuing: Promise<unknown> = Promise.resolve();
+  private lastBeginAt = 0;
+
+  /**
+   * @param pg When given, txid allocation and the active-session registry
+   *           are persisted to `trxs` (spec §7.3.1), so a restarted instance
+   *           resumes from the stored high-water mark.
+   */
+  constructor(private pg?: PGClient, private options: SessionDOOptions = {}) {
+    this.maxTxDurationMs = options.maxTxDurationMs ?? DEFAULT_MAX_TX_DURATION_MS;
+    const blockSize = options.blockSize ?? DEFAULT_TXID_BLOCK_SIZE;
+    if (!Number.isInteger(blockSize) || blockSize < 1) {
+      throw new Error('Txid block size must be a positive integer');
+    }
+    this.blockSize = BigInt(blockSize);
+    this.commitSid = `${TXID_COMMIT_PREFIX}${options.shard ?? ''}`;
+    if (options.shard !== undefined) {
+      if (!pg) throw new Error('Txid blocks need a PGClient');
+      if (!/^[a-zA-Z0-9_-]+$/.test(options.shard)) throw new Error(`Invalid shard id: ${options.shard}`);
+      this.blockSid = `${TXID_BLOCK_PREFIX}${options.shard}`;
+    }
+  }
+
+  /**
+   * Recover the txid high-water mark and the sessions still registered in
+   * `trxs`. Runs once; every async method awaits it, call it directly before
+   * reading `minActiveTxid` on a fresh instance.
+   */
+  ready(): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.restore().catch((err) => {
+        this.restored = undefined;
+        throw err;
+      });
+    }
+    return this.restored;
+  }
+
+  private async restore(): Promise<void> {
+    if (!this.pg) return;
+    const trxs = await this.pg.query('SELECT sid, owner, create_txid FROM trxs');
+    const sids = new Set(trxs.rows.map((row) => String(row.sid)));
+    for (const row of trxs.rows) {
+      const sid = String(row.sid);
+      const txid = toBigInt(row.create_txid);
+      if (sid.startsWith(TXID_PIN_PREFIX)) {
+        // A pin without its session belongs to a reader; adopt it so the
+        // reaper releases it. A writer's pin goes with the session.
+        const reader = sid.slice(TXID_PIN_PREFIX.length);
+        if (!sids.has(reader) && !this.readers.has(reader)) {
+          this.readers.set(reader, new Transaction(reader, String(row.owner), txid - 1n, [], 'default', true));
+        }
+        continue;
+      }
+      if (sid === TXID_HWM_SID) {
+        this.advance(txid);
+        continue;
+      }
+      if (sid.startsWith(TXID_COMMIT_PREFIX)) continue;
+      if (sid.startsWith(TXID_BLOCK_PREFIX)) {
+        // A previous instance's block is given up, never issued from twice;
+        // other shards' blocks are no sessions
+        if (sid === this.blockSid) {
+          await this.pg.query('DELETE FROM trxs WHERE sid = $1 AND owner = $2', [sid, String(row.owner)]);
+        }
+        continue;
+      }
+      // Sessions left behind by a previous instance keep pinning their txid:
+      // their writes were never committed and must stay invisible. Their
+      // undo log is gone, so rolling one back removes its writes by txid.
+      if (this.activeTxs.has(sid)) continue;
+      const tx = new Transaction(sid, String(row.owner), txid);
+      tx.onRollback(() => this.revertOrphan(sid, txid));
+      this.activeTxs.set(sid, tx);
+    }
+  }
+
+  /**
+   * Physically remove every version written by a recovered or reaped
+   * session and undo its deletions, unless its instance finished it
+   * meanwhile. The `trxs` row is claimed first: it keeps the txid in new
+   * snapshots while the rows go, and that instance's commit sees it was
+   * reaped.
+   */
+  private async revertOrphan(sid: string, txid: bigint): Promise<void> {
+    const claimed = await this.pg!.query(
+      `UPDATE trxs SET owner = '${REAPED_OWNER}' WHERE sid = $1 AND owner <> '${REAPED_OWNER}' RETURNING sid`,
+      [sid]
+    );
+    if (claimed.rows.length > 0) await this.revertTxid(txid);
+  }
+
+  /** Delete the versions written under `txid` and clear the deletions it made, in every ptr table. */
+  private async revertTxid(txid: bigint): Promise<void> {
+    const pg = this.pg!;
+    for (const ptr of await ptrTables(pg)) {
+      await pg.query(`DELETE FROM ${ptr} WHERE _txid = $1`, [txid]);
+      await pg.query(`UPDATE ${ptr} SET _deleted_txid = NULL WHERE _deleted_txid = $1`, [txid]);
+    }
+  }
 
   async allocateTxid(): Promise<bigint> {
-    this.currentTxid = this.currentTxid + 1n;
-    return this.currentTxid;
+    await this.ready();
+    if (this.blockSid) return this.issue();
+    if (this.pg) {
+      const result = await this.pg.query(ALLOCATE_TXID_SQL);
+      return this.advance(toBigInt(result.rows[0].create_txid));
+    }
+    return this.advance(this.currentTxid + 1n);
+  }
+
+  private advance(txid: bigint): bigint {
+    if (txid > this.currentTxid) this.currentTxid = txid;
+    return txid;
+  }
+
+  /** Reserve a block once, however many begins are waiting for one. */
+  private async reserveBlock(): Promise<void> {
+    while (!this.block) {
+      if (!this.reserving) {
+        this.reserving = this.pg!.query(RESERVE_BLOCK_SQL, [this.blockSid, this.blockSize, this.instance])
+          .then((result) => {
+            const next = toBigInt(result.rows[0].create_txid);
+            this.block = { next, end: next + this.blockSize - 1n };
+          })
+          .finally(() => {
+            this.reserving = undefined;
+          });
+      }
+      await this.reserving;
+    }
+  }
+
+  /** Issue txids one statement at a time, in block order. */
+  private issue(session?: { sid: string; owner: string }): Promise<bigint> {
+    const issued = this.issuing.then(() => this.issueNext(session));
+    this.issuing = issued.catch(() => undefined);
+    return issued;
   }
 
-  async beginTransaction(owner: string): Promise<{
-    sid: string;
-    owner: string;
-    currentTxid: bigint;
-  }> {
-    const sid = typeof crypto !== 'undefined' && 'randomUUID' in crypto
-      ? crypto.randomUUID()
-      : `${Date.now()}-${Math.random()}`;
-    const txid = await this.allocateTxid();
-    this.activeTxs.set(sid, txid);
-    return { sid, owner, currentTxid: txid };
+  /**
+   * Take the next txid of this shard's block and move the block row past
+   * it, registering `session` in the same statement; the row goes away
+   * with the block's last txid. The row must still be ours and hold that
+   * txid: if another instance with the same shard id took it over, the
+   * rest of our block is dropped and the txid comes from a new one. Other
+   * shards' commits leave the block alone: they are visible through
+   * `upperTxid` instead.
+   */
+  private async issueNext(session?: { sid: string; owner: string }): Promise<bigint> {
+    for (;;) {
+      await this.reserveBlock();
+      const { next: txid, end } = this.block!;
+      this.block = txid < end ? { next: txid + 1n, end } : undefined;
+      const held = 'sid = $1 AND owner = $3 AND create_txid = $2';
+      const publish = txid < end
+        ? `UPDATE trxs SET create_txid = $2::bigint + 1 WHERE ${held} RETURNING sid`
+        : `DELETE FROM trxs WHERE ${held} RETURNING sid`;
+      const register = session
+        ? `, session AS (
+           INSERT INTO trxs (sid, owner, create_txid) SELECT $4, $5, $2 FROM block
+         )`
+        : '';
+      const result = await this.pg!.query(
+        `WITH block AS (${publish})${register}
+         SELECT sid FROM block`,
+        [this.blockSid, txid, this.instance, ...(session ? [session.sid, session.owner] : [])]
+      );
+      if (result.rows.length > 0) return this.advance(txid);
+      this.block = undefined;
+    }
+  }
+
+  /**
+   * The highest txid a writer at `txid` sees, and the txids up to it that
+   * may not have finished: registered sessions and the unissued rest of
+   * blocks. The oldest of them is pinned for session `sid`.
+   */
+  private async inflight(txid: bigint, sid: string, owner: string): Promise<{ upper: bigint; snapshot: bigint[] }> {
+    const result = await this.pg!.query(SNAPSHOT_SQL, [txid, pinSid(sid), owner]);
+    const upper = result.rows.length > 0 ? toBigInt(result.rows[0].top) : txid - 1n;
+    const sessions = result.rows.filter(row => row.sid != null && String(row.sid) !== sid);
+    return { upper, snapshot: this.snapshotOf(sessions, upper + 1n) };
   }
 
+  /** Txids below `txid` still in flight, from `trxs` rows already read, without the high-water mark row. */
+  private snapshotOf(rows: Array<Record<string, unknown>>, txid: bigint): bigint[] {
+    const snapshot: bigint[] = [];
+    for (const row of rows) {
+      const from = toBigInt(row.create_txid);
+      if (from >= txid || String(row.sid).startsWith(TXID_PIN_PREFIX)) continue;
+      if (!String(row.sid).startsWith(TXID_BLOCK_PREFIX)) {
+        snapshot.push(from);
+        continue;
+      }
+      const end = blockEnd(from, this.blockSize);
+      for (let t = from; t <= end && t < txid; t++) snapshot.push(t);
+    }
+    return snapshot;
+  }
+
+  /** Give up the unissued rest of this shard's block. */
+  async releaseBlock(): Promise<void> {
+    await this.ready();
+    if (!this.blockSid || !this.block) return;
+    this.block = undefined;
+    await this.pg!.query('DELETE FROM trxs WHERE sid = $1 AND owner = $2', [this.blockSid, this.instance]);
+  }
+
+  async beginTransaction(owner: string, options: BeginOptions = {}): Promise<Transaction> {
+    await this.ready();
+    const sid = randomId();
+    if (options.readOnly) return this.beginReader(sid, owner, options.isolation);
+    this.lastBeginAt = Date.now();
+
+    if (!this.pg) {
+      const snapshot = this.unfinished();
+      const txid = await this.allocateTxid();
+      const tx = new Transaction(sid, owner, txid, snapshot, options.isolation);
+      this.activeTxs.set(sid, tx);
+      return tx;
+    }
+
+    // Allocate and register in one statement so no other instance can
+    // observe the txid before it shows up in `trxs`.
+    let txid: bigint;
+    if (this.blockSid) {
+      txid = await this.issue({ sid, owner });
+    } else {
+      const created = await this.pg.query(
+        `WITH next AS (${ALLOCATE_TXID_SQL})
+         INSERT INTO trxs (sid, owner, create_txid)
+         SELECT $1, $2, create_txid FROM next
+         RETURNING create_txid`,
+        [sid, owner]
+      );
+      txid = this.advance(toBigInt(created.rows[0].create_txid));
+    }
+    const { upper, snapshot } = await this.inflight(txid, sid, owner);
+    const tx = new Transaction(sid, owner, txid, snapshot, options.isolation, false, upper);
+    this.activeTxs.set(sid, tx);
+    return tx;
+  }
+
+  /**
+   * A reader sees every txid allocated so far, up to the high-water mark,
+   * except those still in flight. With `pg` the mark and the sessions come
+   * from one read of `trxs`, since other instances allocate too, and the
+   * reader registers its pin in the same statement.
+   */
+  private async beginReader(sid: string, owner: string, isolation?: IsolationMode): Promise<Transaction> {
+    let txid = this.currentTxid;
+    let snapshot = this.unfinished();
+    if (this.pg) {
+      const result = await this.pg.query(READER_SQL, [pinSid(sid), owner]);
+      const sessions = result.rows.filter(row => String(row.sid) !== TXID_HWM_SID);
+      const hwm = result.rows.find(row => String(row.sid) === TXID_HWM_SID);
+      txid = hwm ? this.advance(toBigInt(hwm.create_txid)) : 0n;
+      snapshot = this.snapshotOf(sessions, txid + 1n);
+    }
+    const tx = new Transaction(sid, owner, txid, snapshot, isolation, true);
+    this.readers.set(sid, tx);
+    return tx;
+  }
+
+  /**
+   * Make the transaction's writes visible. Under snapshot isolation a
+   * write conflict rolls the transaction back and rethrows `ConflictError`.
+   * A transaction older than `maxTxDurationMs`, or already reaped, is
+   * rolled back with `TimeoutError`.
+   */
   async commit(sid: string): Promise<void> {
+    await this.ready();
+    const tx = this.activeTxs.get(sid) ?? this.readers.get(sid);
+    try {
+      if (this.reaped.has(sid) || (tx && this.isStale(tx, Date.now()))) {
+        throw new TimeoutError(`Transaction ${sid} exceeded ${this.maxTxDurationMs}ms`);
+      }
+      await tx?.validate();
+    } catch (err) {
+      await this.rollback(sid);
+      throw err;
+    }
+    if (this.readers.delete(sid)) {
+      await this.pg?.query('DELETE FROM trxs WHERE sid = $1', [pinSid(sid)]);
+      return;
+    }
+    this.activeTxs.delete(sid);
+    if (!this.pg || !tx) return;
+    const removed = await this.pg.query(COMMIT_SQL, [sid, pinSid(sid), this.commitSid, tx.currentTxid]);
+    if (!removed.rows.some((row) => String(row.sid) === sid)) {
+      // Another instance reaped the session and is reverting it by txid
+      await tx.revert();
+      throw new TimeoutError(`Transaction ${sid} was reaped`);
+    }
+  }
+
+  /**
+   * Abort a transaction and physically revert every write it made.
+   * Unknown or already finished sids are ignored.
+   */
+  async rollback(sid: string): Promise<void> {
+    await this.ready();
+    const reaped = this.reaped.get(sid);
+    if (reaped) {
+      await this.settleReaped(reaped.tx);
+      this.reaped.delete(sid);
+      return;
+    }
+    if (this.readers.delete(sid)) {
+      await this.pg?.query('DELETE FROM trxs WHERE sid = $1', [pinSid(sid)]);
+      return;
+    }
+    const tx = this.activeTxs.get(sid);
+    if (!tx) return;
+    await tx.revert();
     this.activeTxs.delete(sid);
+    await this.pg?.query('DELETE FROM trxs WHERE sid IN ($1, $2)', [sid, pinSid(sid)]);
+  }
+
+  /**
+   * Revert a reaped transaction for good and end its session. With `pg` the
+   * writes go by txid once more, catching those that landed after `reap`
+   * reverted it; its undo log is left alone, since a handler that never
+   * finished may still be adding to it. The session row must still be ours
+   * to revert: a recovered session another instance committed is gone.
+   */
+  private async settleReaped(tx: Transaction): Promise<void> {
+    if (!this.pg) {
+      await tx.revert();
+      return;
+    }
+    if (!tx.readOnly) {
+      const held = await this.pg.query(`SELECT sid FROM trxs WHERE sid = $1 AND owner = '${REAPED_OWNER}'`, [tx.sid]);
+      if (held.rows.length > 0) await this.revertTxid(tx.currentTxid);
+    }
+    await this.pg.query('DELETE FROM trxs WHERE sid IN ($1, $2)', [tx.sid, pinSid(tx.sid)]);
+  }
+
+  private isStale(tx: Transaction, now: number): boolean {
+    return now - tx.startedAt > this.maxTxDurationMs;
+  }
+
+  /** Txids of writers that have not finished, reaped ones included. */
+  private unfinished(): bigint[] {
+    const txids = Array.from(this.activeTxs.values(), tx => tx.currentTxid);
+    for (const { tx } of this.reaped.values()) {
+      if (!tx.readOnly) txids.push(tx.currentTxid);
+    }
+    return txids;
+  }
+
+  /**
+   * Roll back every transaction older than `maxTxDurationMs`, so a handler
+   * that never finished stops pinning `minActiveTxid` and its snapshot stops
+   * pinning the GC horizon. The transaction is aborted: TableProxy refuses
+   * its writes and its `commit` throws `TimeoutError`. With `pg` its writes
+   * are reverted by txid at once. The undo log is only run once the handler
+   * calls commit or rollback: a write under way has its undo step logged
+   * before it lands, so running the log now would miss the write. A writer's
+   * txid stays in the snapshots of new transactions (with `pg`, as a
+   * `__reaped` row in `trxs`) until its handler finishes, or for another
+   * `maxTxDurationMs`, so a write that lands late stays hidden until it is
+   * reverted too. Sessions recovered from `trxs` count their age from
+   * recovery. Returns the reaped sids.
+   */
+  async reap(): Promise<string[]> {
+    await this.ready();
+    const now = Date.now();
+    for (const [sid, { at }] of this.reaped) {
+      if (now - at > this.maxTxDurationMs) await this.rollback(sid);
+    }
+    const stale = [...this.activeTxs.values(), ...this.readers.values()].filter((tx) => this.isStale(tx, now));
+    for (const tx of stale) {
+      tx.abort();
+      this.activeTxs.delete(tx.sid);
+      this.readers.delete(tx.sid);
+      this.reaped.set(tx.sid, { tx, at: now });
+      if (!this.pg) continue;
+      await this.pg.query('DELETE FROM trxs WHERE sid = $1', [pinSid(tx.sid)]);
+      if (!tx.readOnly) await this.revertOrphan(tx.sid, tx.currentTxid);
+    }
+    // An idle shard's block would hold back every snapshot and the GC horizon
+    if (now - this.lastBeginAt > this.maxTxDurationMs) await this.releaseBlock();
+    return stale.map((tx) => tx.sid);
+  }
+
+  /** Run `reap` every `intervalMs`; the timer does not keep the process alive. */
+  startReaper(intervalMs = 10_000): void {
+    this.stopReaper();
+    this.reaper = setInterval(() => {
+      this.reap().catch((err) => this.options.onReapError?.(err));
+    }, intervalMs);
+    (this.reaper as { unref?: () => void }).unref?.();
+  }
+
+  stopReaper(): void {
+    if (this.reaper) clearInterval(this.reaper);
+    this.reaper = undefined;
+  }
+
+  /** Transactions this instance tracks, oldest txid first. */
+  async listActive(): Promise<ActiveTransaction[]> {
+    await this.ready();
+    const now = Date.now();
+    return [...this.activeTxs.values(), ...this.readers.values()].map((tx) => ({
+      sid: tx.sid,
+      owner: tx.owner,
+      txid: tx.currentTxid,
+      isolation: tx.isolation,
+      readOnly: tx.readOnly,
+      startedAt: tx.startedAt,
+      ageMs: now - tx.startedAt,
+    })).sort((a, b) => (a.txid < b.txid ? -1 : a.txid > b.txid ? 1 : 0));
+  }
+
+  /**
+   * Lowest txid some transaction might not see: versions written or deleted
+   * below it are settled for every active and future transaction, which is
+   * what garbage collection needs. An active transaction pins its own txid
+   * and every txid in its snapshot, since those stay invisible to it even
+   * after they commit. With `pg`, every row other instances registered in
+   * `trxs` counts as well: their sessions, the pins of their snapshots and
+   * readers, and the unissued rest of their txid blocks.
+   */
+  async gcHorizon(): Promise<bigint> {
+    await this.ready();
+    let horizon = this.currentTxid + 1n;
+    for (const tx of this.activeTxs.values()) {
+      for (const txid of [tx.currentTxid, ...tx.snapshot]) {
+        if (txid < horizon) horizon = txid;
+      }
+    }
+    for (const { tx } of this.reaped.values()) {
+      if (!tx.readOnly && tx.currentTxid < horizon) horizon = tx.currentTxid;
+    }
+    // A reader sees its own txid, so only the txids above it may be collected
+    for (const tx of this.readers.values()) {
+      for (const txid of [tx.currentTxid + 1n, ...tx.snapshot]) {
+        if (txid < horizon) horizon = txid;
+      }
+    }
+    if (this.pg) {
+      const result = await this.pg.query(
+        'SELECT MIN(create_txid) AS txid FROM trxs WHERE sid <> $1 AND NOT starts_with(sid, $2)',
+        [TXID_HWM_SID, TXID_COMMIT_PREFIX]
+      );
+      const txid = result.rows[0]?.txid;
+      if (txid !== null && txid !== undefined && toBigInt(txid) < horizon) horizon = toBigInt(txid);
+    }
+    return horizon;
   }
 
   get minActiveTxid(): bigint {
     if (this.activeTxs.size === 0) return this.currentTxid;
     let min = undefined as bigint | undefined;
-    for (const v of this.activeTxs.values()) {
-      if (min === undefined || v < min) min = v;
+    for (const tx of this.activeTxs.values()) {
+      if (min === undefined || tx.currentTxid < min) min = tx.currentTxid;
     }
     return min!;
   }
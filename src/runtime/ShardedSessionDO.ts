@@ -0,0 +1,116 @@
+/**
+ * ShardedSessionDO — spreads transactions over several SessionDO shards,
+ * each allocating txids from its own block (see `SessionDOOptions.shard`).
+ */
+
+import { SessionDO, type ActiveTransaction, type BeginOptions, type SessionDOOptions } from './SessionDO';
+import type { Transaction } from './transaction';
+import type { PGClient } from '../storage/TableProxy';
+
+export interface ShardedSessionDOOptions extends Omit<SessionDOOptions, 'shard'> {
+  /** Number of shards (default 4) */
+  shards?: number;
+  /**
+   * Prefix of the shard ids (default `'s'`). Processes sharing a database
+   * should each use their own; with the same one they stay correct but
+   * keep taking blocks from each other.
+   */
+  prefix?: string;
+}
+
+/**
+ * Stable shard index for an owner (32-bit FNV-1a). Use it to route an
+ * owner to the same SessionDO Durable Object on every request.
+ */
+export function shardFor(owner: string, shards: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < owner.length; i++) {
+    hash ^= owner.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % shards;
+}
+
+/**
+ * All transactions of one owner run on the same shard. Commit marks make
+ * a transaction see what other shards committed before it began, even
+ * above its own txid (see `TXID_COMMIT_PREFIX`).
+ */
+export class ShardedSessionDO {
+  readonly shards: SessionDO[];
+  private owners = new Map<string, SessionDO>();
+
+  constructor(pg: PGClient, options: ShardedSessionDOOptions = {}) {
+    const { shards = 4, prefix = 's', ...rest } = options;
+    if (!Number.isInteger(shards) || shards < 1) throw new Error('Shard count must be a positive integer');
+    this.shards = Array.from({ length: shards }, (_, i) => new SessionDO(pg, { ...rest, shard: `${prefix}${i}` }));
+  }
+
+  shardFor(owner: string): SessionDO {
+    return this.shards[shardFor(owner, this.shards.length)];
+  }
+
+  /**
+   * Recover every shard. Awaited before the first transaction begins, so no
+   * shard mistakes a sibling's session for one left behind.
+   */
+  ready(): Promise<void> {
+    return Promise.all(this.shards.map((s) => s.ready())).then(() => undefined);
+  }
+
+  async beginTransaction(owner: string, options: BeginOptions = {}): Promise<Transaction> {
+    await this.ready();
+    const shard = this.shardFor(owner);
+    const tx = await shard.beginTransaction(owner, options);
+    this.owners.set(tx.sid, shard);
+    return tx;
+  }
+
+  async commit(sid: string): Promise<void> {
+    const shard = this.owners.get(sid);
+    if (!shard) return;
+    try {
+      await shard.commit(sid);
+    } finally {
+      this.owners.delete(sid);
+    }
+  }
+
+  async rollback(sid: string): Promise<void> {
+    const shard = this.owners.get(sid);
+    if (!shard) return;
+    await shard.rollback(sid);
+    this.owners.delete(sid);
+  }
+
+  async gcHorizon(): Promise<bigint> {
+    const horizons = await Promise.all(this.shards.map((s) => s.gcHorizon()));
+    return horizons.reduce((a, b) => (a < b ? a : b));
+  }
+
+  async reap(): Promise<string[]> {
+    const reaped: string[] = [];
+    for (const shard of this.shards) reaped.push(...await shard.reap());
+    return reaped;
+  }
+
+  startReaper(intervalMs?: number): void {
+    for (const shard of this.shards) shard.startReaper(intervalMs);
+  }
+
+  stopReaper(): void {
+    for (const shard of this.shards) shard.stopReaper();
+  }
+
+  async listActive(): Promise<ActiveTransaction[]> {
+    const bySid = new Map<string, ActiveTransaction>();
+    for (const shard of this.shards) {
+      for (const tx of await shard.listActive()) bySid.set(tx.sid, tx);
+    }
+    return Array.from(bySid.values()).sort((a, b) => (a.txid < b.txid ? -1 : a.txid > b.txid ? 1 : 0));
+  }
+
+  get minActiveTxid(): bigint {
+    return this.shards.map((s) => s.minActiveTxid).reduce((a, b) => (a < b ? a : b));
+  }
+}
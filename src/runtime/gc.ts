@@ -0,0 +1,206 @@
+/**
+ * MVCC garbage collection: physically removes versions that no running or
+ * future transaction can read any more.
+ */
+
+import type { PGClient } from '../storage/TableProxy';
+import { TXID_COMMIT_PREFIX, TXID_HWM_SID, type SessionDO } from './SessionDO';
+import type { ShardedSessionDO } from './ShardedSessionDO';
+
+export interface GcOptions {
+  /** Rows deleted per statement (default 1000) */
+  batchSize?: number;
+  /** Statements per table and run, to bound how long one run takes (default: until done) */
+  maxBatches?: number;
+}
+
+export interface GcTableStats {
+  ptr: string;
+  removed: number;
+  durationMs: number;
+}
+
+export interface GcReport {
+  /** Versions below this txid were considered */
+  horizon: bigint;
+  removed: number;
+  durationMs: number;
+  tables: GcTableStats[];
+}
+
+export interface GcSchedulerOptions extends GcOptions {
+  onReport?: (report: GcReport) => void;
+  /** Failures of timer-driven runs; `run()` callers get the rejection instead */
+  onError?: (err: unknown) => void;
+}
+
+const DEFAULT_GC_BATCH_SIZE = 1000;
+
+/**
+ * One batch of garbage in a ptr table. Per record (and owner, since shared
+ * tables version records per owner), the latest version below the horizon
+ * is what every transaction reads; older versions are garbage, and so is
+ * that version itself once its deletion is below the horizon too.
+ */
+function gcBatchSQL(ptr: string, horizon: string, limit: string): string {
+  return `WITH latest AS (
+  SELECT id, _owner, MAX(_txid) AS _txid FROM ${ptr}
+  WHERE _txid < ${horizon}
+  GROUP BY id, _owner
+), doomed AS (
+  SELECT t.ctid FROM ${ptr} t
+  JOIN latest ON t.id = latest.id AND t._owner = latest._owner
+  WHERE t._txid < latest._txid
+     OR (t._txid = latest._txid AND t._deleted_txid < ${horizon})
+  LIMIT ${limit}
+)
+DELETE FROM ${ptr} WHERE ctid = ANY(ARRAY(SELECT ctid FROM doomed))`;
+}
+
+function batchSizeOf(options: GcOptions): number {
+  const size = options.batchSize ?? DEFAULT_GC_BATCH_SIZE;
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error('GC batch size must be a positive integer');
+  }
+  return size;
+}
+
+/** Every physical table registered in `storage`, checked for use as an SQL identifier. */
+export async function ptrTables(pg: PGClient): Promise<string[]> {
+  const result = await pg.query('SELECT DISTINCT ptr FROM storage ORDER BY ptr');
+  return result.rows.map((row) => {
+    const ptr = String(row.ptr);
+    if (!/^[a-zA-Z0-9_]+$/.test(ptr)) throw new Error(`Invalid ptr in storage: ${ptr}`);
+    return ptr;
+  });
+}
+
+/**
+ * Remove garbage below `horizon` from every ptr table registered in
+ * `storage`. `horizon` must not exceed `SessionDO.gcHorizon()`.
+ */
+export async function collectGarbage(pg: PGClient, horizon: bigint, options: GcOptions = {}): Promise<GcReport> {
+  const batchSize = batchSizeOf(options);
+  const started = Date.now();
+  const tables: GcTableStats[] = [];
+  for (const ptr of await ptrTables(pg)) {
+    const tableStarted = Date.now();
+    let removed = 0;
+    for (let batch = 0; options.maxBatches === undefined || batch < options.maxBatches; batch++) {
+      const deleted = await pg.query(`${gcBatchSQL(ptr, '$1', '$2')} RETURNING 1`, [horizon, batchSize]);
+      removed += deleted.rows.length;
+      if (deleted.rows.length < batchSize) break;
+    }
+    tables.push({ ptr, removed, durationMs: Date.now() - tableStarted });
+  }
+  return {
+    horizon,
+    removed: tables.reduce((sum, t) => sum + t.removed, 0),
+    durationMs: Date.now() - started,
+    tables,
+  };
+}
+
+/**
+ * `kontract_gc(horizon, batch_size)`: the same cleanup as `collectGarbage`,
+ * as a PL/pgSQL function returning one row of stats per ptr table.
+ */
+export function generateGcFunction(): string {
+  return `CREATE OR REPLACE FUNCTION kontract_gc(horizon BIGINT, batch_size INT DEFAULT ${DEFAULT_GC_BATCH_SIZE})
+RETURNS TABLE (ptr TEXT, removed BIGINT, duration_ms DOUBLE PRECISION) AS $$
+DECLARE
+  tbl RECORD;
+  started TIMESTAMPTZ;
+  deleted BIGINT;
+BEGIN
+  FOR tbl IN SELECT DISTINCT storage.ptr AS name FROM storage ORDER BY 1 LOOP
+    started := clock_timestamp();
+    removed := 0;
+    LOOP
+      EXECUTE format('${gcBatchSQL('%1$I', '%2$L', '%3$L')}', tbl.name, horizon, batch_size);
+      GET DIAGNOSTICS deleted = ROW_COUNT;
+      removed := removed + deleted;
+      EXIT WHEN deleted < batch_size;
+    END LOOP;
+    ptr := tbl.name;
+    duration_ms := EXTRACT(EPOCH FROM clock_timestamp() - started) * 1000;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;`;
+}
+
+export interface GcScriptOptions extends GcOptions {
+  /**
+   * Collect below this txid instead of the horizon read from `trxs`. Unsafe:
+   * a txid above a running transaction's snapshot deletes versions it reads.
+   */
+  unsafeHorizon?: bigint;
+}
+
+/**
+ * The `trxs` part of `SessionDO.gcHorizon`, as one query: the oldest
+ * session, `__pin_` or block row, else one past the high-water mark.
+ */
+export function gcHorizonSQL(): string {
+  return `SELECT LEAST(
+  (SELECT MIN(create_txid) FROM trxs WHERE sid <> '${TXID_HWM_SID}' AND NOT starts_with(sid, '${TXID_COMMIT_PREFIX}')),
+  (SELECT COALESCE(MAX(create_txid), 0) + 1 FROM trxs WHERE sid = '${TXID_HWM_SID}')
+)`;
+}
+
+/**
+ * Script for `kontract gc`: defines `kontract_gc` and runs it once, at the
+ * horizon `gcHorizonSQL` reads when the script runs.
+ */
+export function generateGcScript(options: GcScriptOptions = {}): string {
+  const { unsafeHorizon } = options;
+  const horizon = unsafeHorizon === undefined ? `(${gcHorizonSQL()})` : String(unsafeHorizon);
+  return `${generateGcFunction()}\n\nSELECT * FROM kontract_gc(${horizon}, ${batchSizeOf(options)});`;
+}
+
+/**
+ * Runs `collectGarbage` at the horizon reported by a SessionDO, either on
+ * demand (`run`, e.g. from a Cron trigger) or on a timer (`start`).
+ */
+export class GcScheduler {
+  private timer?: ReturnType<typeof setInterval>;
+  private running?: Promise<GcReport>;
+
+  constructor(
+    private pg: PGClient,
+    private sessionDO: SessionDO | ShardedSessionDO,
+    private options: GcSchedulerOptions = {}
+  ) {}
+
+  /** Collect once. A call while a run is in progress joins that run. */
+  run(): Promise<GcReport> {
+    if (!this.running) {
+      this.running = this.collect().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async collect(): Promise<GcReport> {
+    const horizon = await this.sessionDO.gcHorizon();
+    const report = await collectGarbage(this.pg, horizon, this.options);
+    this.options.onReport?.(report);
+    return report;
+  }
+
+  /** Run every `intervalMs`; the timer does not keep the process alive. */
+  start(intervalMs = 60_000): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.run().catch((err) => this.options.onError?.(err));
+    }, intervalMs);
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
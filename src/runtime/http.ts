@@ -55,3 +55,27 @@ export class PermissionError extends HttpError {
     super(`Field '${field}' is read-only`, 403, 'PERMISSION_DENIED');
   }
 }
+
+/** One offending value: `path` is dotted with `[i]` for array items, `''` for the root. */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends HttpError {
+  constructor(public issues: ValidationIssue[], message = 'Invalid request') {
+    super(message, 400, 'INVALID_REQUEST');
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message = 'Conflict') {
+    super(message, 409, 'CONFLICT');
+  }
+}
+
+export class TimeoutError extends HttpError {
+  constructor(message = 'Timeout') {
+    super(message, 408, 'TIMEOUT');
+  }
+}
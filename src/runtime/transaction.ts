@@ -0,0 +1,168 @@
+/**
+ * Transaction — per-request MVCC transaction handle.
+ * Spec §7.3.1
+ *
+ * Writes made through a TableProxy are tagged with `currentTxid` and stay
+ * invisible to other transactions until commit (see `snapshot`). Every
+ * write also records an undo step, so a rollback can physically revert
+ * the rows it touched.
+ */
+
+import { ConflictError } from './http';
+
+export type UndoStep = () => Promise<void>;
+
+/**
+ * `snapshot` additionally rejects the commit when another transaction
+ * wrote a record this one read or wrote (first committer wins).
+ */
+export type IsolationMode = 'default' | 'snapshot';
+
+/**
+ * A write stamp is the last committed txid, other than our own, that
+ * wrote or deleted a version of a record. `null` means nobody else did.
+ */
+export type WriteStamp = bigint | null;
+
+/** Position in a transaction's undo log, from `Transaction.savepoint()`. */
+export interface Savepoint {
+  readonly sid: string;
+  /** Undo steps registered before the savepoint */
+  readonly undo: number;
+  /** Write conflicts recorded before the savepoint */
+  readonly conflicts: number;
+}
+
+export class Transaction {
+  private undoLog: UndoStep[] = [];
+  private reads = new Map<string, () => Promise<WriteStamp>>();
+  private conflicts = new Set<string>();
+  /** Savepoints that can still be rolled back to, oldest first */
+  private savepoints: Savepoint[] = [];
+  private wasAborted = false;
+  /** When this instance began (or recovered) the transaction, in epoch milliseconds */
+  public readonly startedAt = Date.now();
+
+  constructor(
+    public readonly sid: string,
+    public readonly owner: string,
+    public readonly currentTxid: bigint,
+    /** txids that were still in flight when this transaction began */
+    public readonly snapshot: bigint[] = [],
+    public readonly isolation: IsolationMode = 'default',
+    /** Reads at `currentTxid` without owning it; see `BeginOptions.readOnly` */
+    public readonly readOnly = false,
+    upperTxid?: bigint
+  ) {
+    this.upperTxid = upperTxid ?? currentTxid - 1n;
+  }
+
+  /**
+   * Highest txid whose commit this transaction can see. Another shard may
+   * have committed a txid above ours before we began; it is then visible,
+   * and everything still in flight up to it is in `snapshot`.
+   */
+  public readonly upperTxid: bigint;
+
+  /** Register a step that reverts a write made by this transaction. */
+  onRollback(step: UndoStep): void {
+    this.undoLog.push(step);
+  }
+
+  get pendingUndo(): number {
+    return this.undoLog.length;
+  }
+
+  /**
+   * Rolled back while its handler may still run (see `SessionDO.reap`):
+   * TableProxy refuses further writes.
+   */
+  get aborted(): boolean {
+    return this.wasAborted;
+  }
+
+  abort(): void {
+    this.wasAborted = true;
+  }
+
+  /** Run undo steps newest-first, then clear the log. */
+  async revert(): Promise<void> {
+    this.savepoints = [];
+    const steps = this.undoLog.splice(0).reverse();
+    for (const step of steps) {
+      await step();
+    }
+  }
+
+  /** Mark the current position, so the writes made after it can be undone alone. */
+  savepoint(): Savepoint {
+    const savepoint = { sid: this.sid, undo: this.undoLog.length, conflicts: this.conflicts.size };
+    this.savepoints.push(savepoint);
+    return savepoint;
+  }
+
+  /**
+   * Undo the writes made since `savepoint`, newest-first. The savepoint
+   * stays usable; savepoints taken after it are discarded. Records read
+   * since stay tracked for snapshot isolation.
+   */
+  async rollbackTo(savepoint: Savepoint): Promise<void> {
+    const index = this.savepoints.indexOf(savepoint);
+    if (index < 0) throw new Error(`Unknown savepoint for transaction ${this.sid}`);
+    this.savepoints.length = index + 1;
+    for (const key of Array.from(this.conflicts).slice(savepoint.conflicts)) {
+      this.conflicts.delete(key);
+    }
+    const steps = this.undoLog.splice(savepoint.undo).reverse();
+    for (const step of steps) {
+      await step();
+    }
+  }
+
+  /** Whether writes stamped with `txid` had committed when this transaction began. */
+  sees(txid: bigint): boolean {
+    return txid !== this.currentTxid && txid <= this.upperTxid && !this.snapshot.includes(txid);
+  }
+
+  /**
+   * Track a record read under snapshot isolation. `current` re-reads its
+   * write stamp at commit time. Read-only transactions write nothing a
+   * stale read could corrupt, so they track nothing.
+   */
+  trackRead(key: string, current: () => Promise<WriteStamp>): void {
+    if (this.isolation !== 'snapshot' || this.readOnly || this.reads.has(key)) return;
+    this.reads.set(key, current);
+  }
+
+  /**
+   * Check the write stamp found on a record right before we overwrite it.
+   * A version we see that ranks above our txid would stay on top of ours,
+   * whatever the isolation mode.
+   */
+  trackWrite(key: string, stamp: WriteStamp): void {
+    if (stamp !== null && stamp > this.currentTxid && this.sees(stamp)) {
+      throw new ConflictError(`Write conflict on ${key}: a later txid committed it before ${this.currentTxid} began`);
+    }
+    if (this.isolation !== 'snapshot') return;
+    if (!this.isVisibleStamp(stamp)) this.conflicts.add(key);
+  }
+
+  /**
+   * A stamp outside our snapshot means another transaction wrote the
+   * record after we began: our read is stale and our write would clobber it.
+   */
+  private isVisibleStamp(stamp: WriteStamp): boolean {
+    return stamp === null || this.sees(stamp);
+  }
+
+  /** Throws `ConflictError` if a tracked record was written concurrently. */
+  async validate(): Promise<void> {
+    const [conflict] = this.conflicts;
+    if (conflict) throw new ConflictError(`Write conflict on ${conflict}`);
+    for (const [key, current] of this.reads) {
+      if (!this.isVisibleStamp(await current())) {
+        throw new ConflictError(`Write conflict on ${key}`);
+      }
+    }
+  }
+}
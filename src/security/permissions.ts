@@ -1,3 +1,5 @@
+import { ForbiddenError, PermissionError } from '../runtime/http';
+
 /** Permission bit constants as defined in the Kontract spec. */
 export const perms = {
   R__: 0b100,
@@ -9,6 +11,9 @@ export const perms = {
   RWX: 0b111
 } as const;
 
+/** User group whose contexts may read owner-scoped tables across owners (`TableProxy.unscoped`). */
+export const ADMIN_GROUP = 'admin';
+
 export interface PermContext {
   sid: string;
   owner: string;
@@ -24,13 +29,19 @@ export function verifyAccess(ctx: PermContext, requiredPerm: number, owner?: str
   }
 }
 
-export function checkTablePermission(perms: number, operation: 'read' | 'write' | 'delete'): void {
+export type TableOperation = 'read' | 'write' | 'delete';
+
+/** Throws `ForbiddenError` unless the table's permission bits allow `operation`. */
+export function checkTablePermission(perms: number, operation: TableOperation, table?: string): void {
   const required = operation === 'read' ? 0b100 : operation === 'write' ? 0b010 : 0b001;
   if (!(perms & required)) {
-    throw new Error(`Cannot ${operation}`);
+    throw new ForbiddenError(table ? `Cannot ${operation} ${table}` : `Cannot ${operation}`);
   }
 }
 
+/** Default for fields without `@perm`: readable and writable. */
+export const DEFAULT_FIELD_PERM = 0b110;
+
 export function checkFieldPermissions(data: Record<string, unknown>, fieldPerms: Record<string, number>, mask: number): void {
   for (const [field, value] of Object.entries(data)) {
     if (value !== undefined) {
@@ -42,3 +53,28 @@ export function checkFieldPermissions(data: Record<string, unknown>, fieldPerms:
     }
   }
 }
+
+/**
+ * Spec §8.2.3: throws `PermissionError` for the first defined field in
+ * `data` whose `@perm` lacks the W bit. Unlike `checkFieldPermissions`,
+ * which checks a caller's mask against the fields that need W, this is
+ * what TableProxy applies to the fields a write changes.
+ */
+export function checkWritableFields(data: Record<string, unknown>, fieldPerms: Record<string, number>): void {
+  for (const [field, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (!((fieldPerms[field] ?? DEFAULT_FIELD_PERM) & 0b010)) {
+      throw new PermissionError(field);
+    }
+  }
+}
+
+/** Copy of `data` without the fields whose `@perm` lacks the R bit. */
+export function stripUnreadableFields<T>(data: T, fieldPerms: Record<string, number>): T {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) return data;
+  const out: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(data)) {
+    if ((fieldPerms[field] ?? DEFAULT_FIELD_PERM) & 0b100) out[field] = value;
+  }
+  return out as T;
+}
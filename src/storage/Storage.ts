@@ -0,0 +1,97 @@
+import type { RegistryResult } from '../compiler/storage-registry';
+import { TableProxy, type Context, type PGClient, type Relation, type TableOptions } from './TableProxy';
+
+/**
+ * Table key → record type. Empty at runtime; the `.d.ts` emitted by
+ * `generateStorageRegistry` augments it with one entry per interface.
+ */
+export interface StorageRegistry {}
+
+/** Per-table metadata from `generateStorageRegistry`; every part is optional. */
+export type StorageMetadata = Partial<Pick<RegistryResult, 'primaryKeys' | 'fieldPerms' | 'shapes' | 'relations'>> & {
+  /**
+   * Tables are shared between owners (see `TableOptions.ownerScoped`), as
+   * `kontract provision` sets them up. Defaults to true; pass false only for
+   * ptrs provisioned with `--no-owner-scope`, which have a single owner.
+   */
+  ownerScoped?: boolean;
+};
+
+/** Typed property access to every registered table. */
+export type StorageTables = { readonly [K in keyof StorageRegistry]: TableProxy<StorageRegistry[K]> };
+
+/** `ctx.storage`, as returned by `createStorage`. */
+export type Storage = TableDirectory & StorageTables;
+
+/**
+ * One `TableProxy` per table key, created on first access and reused for
+ * the rest of the request.
+ */
+export class TableDirectory {
+  private tables = new Map<string, TableProxy<unknown>>();
+
+  constructor(
+    private pg: PGClient,
+    private ctx: Context,
+    private metadata: StorageMetadata = {}
+  ) {}
+
+  get<K extends keyof StorageRegistry & string>(key: K): TableProxy<StorageRegistry[K]>;
+  get<T = unknown>(key: string): TableProxy<T>;
+  get(key: string): TableProxy<unknown> {
+    let table = this.tables.get(key);
+    if (!table) {
+      table = new TableProxy<unknown>(this.pg, key, this.ctx, this.options(key));
+      this.tables.set(key, table);
+    }
+    return table;
+  }
+
+  /** `TableOptions` for a table key; `@ref` targets get their own options, without relations. */
+  options(key: string): TableOptions<unknown> {
+    const refs = this.metadata.relations?.[key] ?? {};
+    const relations: Record<string, Relation> = {};
+    for (const [field, table] of Object.entries(refs)) {
+      relations[field] = { table, options: this.baseOptions(table) };
+    }
+    return Object.keys(relations).length > 0
+      ? { ...this.baseOptions(key), relations }
+      : this.baseOptions(key);
+  }
+
+  private baseOptions(key: string): TableOptions<unknown> {
+    const options: TableOptions<Record<string, unknown>> = {};
+    const primaryKey = this.metadata.primaryKeys?.[key];
+    const fieldPerms = this.metadata.fieldPerms?.[key];
+    const shape = this.metadata.shapes?.[key];
+    if (primaryKey) options.primaryKey = primaryKey;
+    if (fieldPerms && Object.keys(fieldPerms).length > 0) options.fieldPerms = fieldPerms;
+    if (shape) options.shape = shape;
+    if (this.metadata.ownerScoped !== false) options.ownerScoped = true;
+    return options as TableOptions<unknown>;
+  }
+}
+
+/**
+ * Property names that are not table keys: the public `TableDirectory`
+ * methods, and `then`, which stays undefined so storage is never mistaken
+ * for a promise. `generateStorageRegistry` rejects interfaces named after them.
+ */
+export const RESERVED_TABLE_KEYS: ReadonlySet<string> = new Set(['get', 'options', 'then']);
+
+/**
+ * Storage for a request context. Tables are reachable as properties
+ * (`storage.users`) or through `get`, which also works for reserved keys.
+ * Every other string property is a table, including the names of the
+ * directory's private fields.
+ */
+export function createStorage(pg: PGClient, ctx: Context, metadata: StorageMetadata = {}): Storage {
+  return new Proxy(new TableDirectory(pg, ctx, metadata), {
+    get(target, prop) {
+      if (typeof prop !== 'string') return Reflect.get(target, prop);
+      if (prop === 'then') return undefined;
+      if (prop === 'get' || prop === 'options') return target[prop].bind(target);
+      return target.get(prop);
+    },
+  }) as Storage;
+}
@@ -1,3 +1,25 @@
+import type { Savepoint, Transaction, WriteStamp } from '../runtime/transaction';
+import { ConflictError, ForbiddenError, TimeoutError, ValidationError } from '../runtime/http';
+import {
+  ADMIN_GROUP,
+  checkWritableFields,
+  checkTablePermission,
+  stripUnreadableFields,
+  type TableOperation,
+} from '../security/permissions';
+import {
+  QueryBuilder,
+  type Aggregates,
+  type FieldPath,
+  type FieldValue,
+  type Group,
+  type Join,
+} from './query';
+import { SqlParams } from './sql';
+import { guardSql } from './sql-guard';
+import { validateShape, type TypeShape } from './validation';
+import type { Storage } from './Storage';
+
 export interface PGClient {
   query(sql: string, params?: unknown[]): Promise<{ rows: Array<Record<string, unknown>> }>;
 }
@@ -7,12 +29,70 @@ export interface Context {
   owner: string;
   currentTxid: bigint;
   perm: number;
+  /** txids in flight when the transaction began; their writes stay invisible */
+  snapshot?: bigint[];
+  /** `Transaction.upperTxid`: the highest txid seen, when above `currentTxid` */
+  upperTxid?: bigint;
+  /** Owning transaction; writes register undo steps on it */
+  tx?: Transaction;
+  /**
+   * Read-only transaction: `currentTxid` is the high-water mark it reads
+   * at, not a txid of its own, and every write is rejected
+   */
+  readOnly?: boolean;
+  /** `tx.savepoint()`, injected by the gateway */
+  savepoint?: () => Savepoint;
+  /** `tx.rollbackTo()`: undo only the writes made since `savepoint` */
+  rollbackTo?: (savepoint: Savepoint) => Promise<void>;
   method?: string;
   path?: string;
   headers?: Record<string, string>;
   route?: { name: string; egroup?: string };
   isAnonymous?: boolean;
   ugroups?: string[];
+  /** Table proxies for this context, injected by the gateway */
+  storage?: Storage;
+}
+
+/** Per-table metadata produced by the compiler (see `generateStorageRegistry`). */
+export interface TableOptions<T> {
+  /** Field holding the record id, from `@primkey` or first-field inference */
+  primaryKey?: Extract<keyof T, string>;
+  /** `@perm` bits per field; fields not listed are read-write */
+  fieldPerms?: Partial<Record<Extract<keyof T, string>, number>>;
+  /** Runtime validator for stored values; writes that do not conform throw `ValidationError` */
+  shape?: TypeShape;
+  /**
+   * Table shared by several owners: every statement only touches rows whose
+   * `_owner` is the context's owner, and versions are per (owner, id)
+   */
+  ownerScoped?: boolean;
+  /** `@ref` relations: fields holding the id of a record in another table */
+  relations?: Partial<Record<Extract<keyof T, string>, Relation>>;
+}
+
+/** Target of a field declared with `@ref`. */
+export interface Relation {
+  /** Logical name of the related table */
+  table: string;
+  /** Metadata of the related table, applied when reading through the relation */
+  options?: TableOptions<unknown>;
+}
+
+/** Options for `setMany`, `getMany` and `deleteMany`. */
+export interface BulkOptions {
+  /** Records per statement (default 500) */
+  chunkSize?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 500;
+
+/** One stored version of a record, as listed by `TableProxy.history`. */
+export interface RecordVersion<T> {
+  data: T;
+  _txid: bigint;
+  /** txid that deleted this version, if that delete is visible */
+  _deleted_txid: bigint | null;
 }
 
 function sanitizeIdentifier(name: string): string {
@@ -22,134 +102,793 @@ function sanitizeIdentifier(name: string): string {
   return name;
 }
 
-function containsOtherTables(sql: string, ptr: string): boolean {
-  const re = /\bfrom\s+([a-zA-Z0-9_]+)|\bjoin\s+([a-zA-Z0-9_]+)/gi;
-  let m;
-  while ((m = re.exec(sql)) !== null) {
-    const t = (m[1] || m[2]) || '';
-    if (t && t.toLowerCase() !== ptr.toLowerCase()) return true;
+function toStamp(value: unknown): WriteStamp {
+  return value === null || value === undefined ? null : BigInt(String(value));
+}
+
+function newId(): string {
+  return globalThis.crypto?.randomUUID
+    ? globalThis.crypto.randomUUID()
+    : `${Date.now()}-${Math.random()}`;
+}
+
+function chunksOf<V>(items: V[], options: BulkOptions): V[][] {
+  const size = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error('chunk size must be a positive integer');
+  }
+  const chunks: V[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function assertIndex(index: number): void {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid list index ${index}`);
   }
-  return false;
 }
 
 export class TableProxy<T> {
   private ptrCache?: string;
+  private permsCache = 0b111;
+  /** Set on read-only views returned by `asOf` */
+  private asOfTxid?: bigint;
+  /** What makes this a read-only view (`asOf(txid)`, `unscoped`) */
+  private readOnly?: string;
+  /** Set on views returned by `unscoped`: no `_owner` filter */
+  private allOwners = false;
   constructor(
     private pg: PGClient,
     private name: string,
-    private ctx: Context
+    private ctx: Context,
+    private options: TableOptions<T> = {}
   ) {}
 
   async getPtr(): Promise<string> {
     if (this.ptrCache) return this.ptrCache;
     const result = await this.pg.query(
-      'SELECT ptr FROM storage WHERE id = $1 AND owner = $2',
+      'SELECT ptr, permissions FROM storage WHERE id = $1 AND owner = $2',
       [this.name, this.ctx.owner]
     );
     const row = result.rows[0];
     if (!row) throw new Error(`Table ${this.name} not found`);
     this.ptrCache = sanitizeIdentifier(String(row.ptr));
+    // rows registered before the column existed grant everything, like its DEFAULT
+    this.permsCache = row.permissions === null || row.permissions === undefined
+      ? 0b111
+      : Number(row.permissions);
     return this.ptrCache;
   }
 
-  async get(id: string): Promise<T | null> {
+  /** Resolve the ptr and check the table's `storage.permissions` bits. */
+  private async authorize(...operations: TableOperation[]): Promise<string> {
     const ptr = await this.getPtr();
+    for (const op of operations) {
+      checkTablePermission(this.permsCache, op, this.name);
+    }
+    return ptr;
+  }
+
+  /**
+   * Read-only view of the table as it was when `txid` committed: versions
+   * written later, and writes still in flight when this transaction began,
+   * stay hidden.
+   */
+  asOf(txid: bigint): TableProxy<T> {
+    if (txid >= this.ctx.currentTxid) {
+      throw new Error('asOf txid must precede the current transaction');
+    }
+    const view = new TableProxy<T>(this.pg, this.name, { ...this.ctx, tx: undefined }, this.options);
+    view.ptrCache = this.ptrCache;
+    view.permsCache = this.permsCache;
+    view.asOfTxid = txid;
+    view.readOnly = `asOf(${txid})`;
+    view.allOwners = this.allOwners;
+    return view;
+  }
+
+  /**
+   * Read-only view of an owner-scoped table across every owner, for
+   * contexts in the `admin` user group. Records keep their per-owner
+   * versions; records of different owners may share an id.
+   */
+  unscoped(): TableProxy<T> {
+    if (!this.ctx.ugroups?.includes(ADMIN_GROUP)) {
+      throw new ForbiddenError(`Unscoped access to ${this.name} requires the ${ADMIN_GROUP} group`);
+    }
+    const view = new TableProxy<T>(this.pg, this.name, this.ctx, this.options);
+    view.ptrCache = this.ptrCache;
+    view.permsCache = this.permsCache;
+    view.asOfTxid = this.asOfTxid;
+    view.readOnly = 'unscoped';
+    view.allOwners = true;
+    return view;
+  }
+
+  private assertWritable(): void {
+    if (this.ctx.tx?.aborted) {
+      throw new TimeoutError(`Transaction ${this.ctx.sid} was aborted`);
+    }
+    if (this.readOnly !== undefined) {
+      throw new ForbiddenError(`Table ${this.name} is a read-only ${this.readOnly} view`);
+    }
+    if (this.ctx.readOnly) {
+      throw new ForbiddenError(`Table ${this.name} cannot be written in a read-only transaction`);
+    }
+  }
+
+  /** Whether statements must be limited to the context owner's rows. */
+  private get ownerScoped(): boolean {
+    return !!this.options.ownerScoped && !this.allOwners;
+  }
+
+  /** ` AND _owner = $n` when owner-scoped, else nothing. */
+  private ownerFilter(p: SqlParams, col = '_owner'): string {
+    return this.ownerScoped ? ` AND ${col} = ${p.add(this.ctx.owner)}` : '';
+  }
+
+  /** Owner reference for `stamp`, appended to `values` when owner-scoped. */
+  private stampOwner(values: unknown[]): string | undefined {
+    if (!this.ownerScoped) return undefined;
+    values.push(this.ctx.owner);
+    return `$${values.length}`;
+  }
+
+  /** SQL predicate builder: whether this transaction sees writes stamped with a column. */
+  private sees(p: SqlParams): (col: string) => string {
+    // A read-only transaction does not own its txid: it may be some writer's
+    const asOf = this.asOfTxid ?? (this.ctx.readOnly ? this.ctx.currentTxid : undefined);
+    if (asOf !== undefined) {
+      const horizon = p.add(asOf);
+      const snapshot = p.add(this.ctx.snapshot ?? []);
+      return (col) => `(${col} <= ${horizon} AND ${col} <> ALL(${snapshot}::bigint[]))`;
+    }
+    const txid = p.add(this.ctx.currentTxid);
+    const upper = this.ctx.upperTxid !== undefined && this.ctx.upperTxid >= this.ctx.currentTxid
+      ? p.add(this.ctx.upperTxid)
+      : undefined;
+    const snapshot = p.add(this.ctx.snapshot ?? []);
+    const below = (col: string) => (upper ? `${col} <= ${upper}` : `${col} < ${txid}`);
+    return (col) =>
+      `(${below(col)} AND ${col} <> ALL(${snapshot}::bigint[]) OR ${col} = ${txid})`;
+  }
+
+  /**
+   * MVCC visibility predicate. Every write appends a version keyed by
+   * (id, _txid); a version is visible when its txid committed before this
+   * transaction began (excluding txids still in flight at that point) or
+   * is our own. A record reads as its latest visible version, and is gone
+   * when that version carries a visible `_deleted_txid`. `ref` names the
+   * table in the enclosing FROM when it is aliased. On owner-scoped tables
+   * only the owner's rows qualify, and only its own versions supersede them.
+   */
+  private visible(ptr: string, p: SqlParams, ref = ptr): string {
+    const sees = this.sees(p);
+    const owner = this.ownerFilter(p);
+    const sameOwner = this.options.ownerScoped ? ` AND newer._owner = ${ref}._owner` : '';
+    return `${sees('_txid')}${owner}
+         AND NOT EXISTS (
+           SELECT 1 FROM ${ptr} newer
+           WHERE newer.id = ${ref}.id AND newer._txid > ${ref}._txid${sameOwner}
+             AND ${sees('newer._txid')})
+         AND (_deleted_txid IS NULL OR NOT ${sees('_deleted_txid')})`;
+  }
+
+  /**
+   * Last committed txid other than ours that wrote or deleted a version of
+   * the record, used for write-write conflict detection. Txids still
+   * registered as sessions in `trxs` (reserved rows start with `__`) have
+   * not committed: counting them would fail every concurrent writer
+   * instead of all but the first to commit.
+   */
+  private stamp(ptr: string, idRef: string, txidRef: string, ownerRef?: string): string {
+    const owner = ownerRef ? ` AND _owner = ${ownerRef}` : '';
+    const committed = (col: string) =>
+      `NOT EXISTS (SELECT 1 FROM trxs WHERE trxs.create_txid = ${col} AND NOT starts_with(trxs.sid, '__'))`;
+    return `(SELECT MAX(GREATEST(
+         CASE WHEN ${committed('_txid')} THEN _txid END,
+         CASE WHEN _deleted_txid <> ${txidRef} AND ${committed('_deleted_txid')} THEN _deleted_txid END))
+       FROM ${ptr} WHERE id = ${idRef} AND _txid <> ${txidRef}${owner})`;
+  }
+
+  /**
+   * Check the stamp found before a write, and re-check it at commit like a
+   * read: a writer that had not committed yet is not in the stamp now.
+   */
+  private trackWrite(ptr: string, id: string, stamp: WriteStamp): void {
+    this.ctx.tx?.trackWrite(`${ptr}:${id}`, stamp);
+    this.ctx.tx?.trackRead(`${ptr}:${id}`, () => this.currentStamp(ptr, id));
+  }
+
+  private async currentStamp(ptr: string, id: string): Promise<WriteStamp> {
+    const values: unknown[] = [id, this.ctx.currentTxid];
+    const result = await this.pg.query(
+      `SELECT ${this.stamp(ptr, '$1', '$2', this.stampOwner(values))} AS stamp`,
+      values
+    );
+    return toStamp(result.rows[0]?.stamp);
+  }
+
+  /**
+   * Before writing version (id, currentTxid): check for concurrent writers
+   * and record how to restore our own version as it is now.
+   */
+  private async journal(ptr: string, id: string): Promise<void> {
+    const tx = this.ctx.tx;
+    if (!tx) return;
+    const values: unknown[] = [id, this.ctx.currentTxid];
+    const result = await this.pg.query(
+      `SELECT ${this.stamp(ptr, '$1', '$2', this.stampOwner(values))} AS stamp, own.data, own._deleted_txid
+       FROM (VALUES (1)) AS probe
+       LEFT JOIN ${ptr} own ON own.id = $1 AND own._txid = $2`,
+      values
+    );
+    const row = result.rows[0] ?? {};
+    this.trackWrite(ptr, id, toStamp(row.stamp));
+    tx.onRollback(() => this.restoreVersion(ptr, id, row));
+  }
+
+  /** `journal` for a batch of records, probed in one statement. */
+  private async journalMany(ptr: string, ids: string[]): Promise<void> {
+    const tx = this.ctx.tx;
+    if (!tx) return;
+    const values: unknown[] = [ids, this.ctx.currentTxid];
+    const result = await this.pg.query(
+      `SELECT ids.id, ${this.stamp(ptr, 'ids.id', '$2', this.stampOwner(values))} AS stamp, own.data, own._deleted_txid
+       FROM unnest($1::text[]) AS ids(id)
+       LEFT JOIN ${ptr} own ON own.id = ids.id AND own._txid = $2`,
+      values
+    );
+    const probes = new Map(result.rows.map((row) => [String(row.id), row]));
+    const created: string[] = [];
+    const existing: Array<[string, Record<string, unknown>]> = [];
+    for (const id of ids) {
+      const row = probes.get(id) ?? {};
+      this.trackWrite(ptr, id, toStamp(row.stamp));
+      if (row.data === null || row.data === undefined) created.push(id);
+      else existing.push([id, row]);
+    }
+    tx.onRollback(async () => {
+      if (created.length > 0) {
+        await this.pg.query(
+          `DELETE FROM ${ptr} WHERE id = ANY($1::text[]) AND _txid = $2`,
+          [created, tx.currentTxid]
+        );
+      }
+      for (const [id, row] of existing) await this.restoreVersion(ptr, id, row);
+    });
+  }
+
+  /** Put version (id, currentTxid) back the way the journal probe found it. */
+  private async restoreVersion(ptr: string, id: string, row: Record<string, unknown>): Promise<void> {
+    if (row.data === null || row.data === undefined) {
+      await this.pg.query(
+        `DELETE FROM ${ptr} WHERE id = $1 AND _txid = $2`,
+        [id, this.ctx.currentTxid]
+      );
+      return;
+    }
+    await this.pg.query(
+      `UPDATE ${ptr} SET data = $3, _deleted_txid = $4 WHERE id = $1 AND _txid = $2`,
+      [id, this.ctx.currentTxid, JSON.stringify(row.data), row._deleted_txid ?? null]
+    );
+  }
+
+  /** Drop a version this transaction inserted on rollback. */
+  private journalCreated(ptr: string, id: string): void {
+    this.ctx.tx?.onRollback(async () => {
+      await this.pg.query(`DELETE FROM ${ptr} WHERE id = $1 AND _txid = $2`, [id, this.ctx.currentTxid]);
+    });
+  }
+
+  /** Clear the deletion marks this transaction set on a record on rollback. */
+  private journalDeleted(ptr: string, id: string): void {
+    this.ctx.tx?.onRollback(async () => {
+      await this.pg.query(
+        `UPDATE ${ptr} SET _deleted_txid = NULL WHERE id = $1 AND _deleted_txid = $2`,
+        [id, this.ctx.currentTxid]
+      );
+    });
+  }
+
+  async get(id: string): Promise<T | null> {
+    const data = await this.readLatest(await this.authorize('read'), id);
+    return data === null ? null : this.readable(data);
+  }
+
+  /** Drop write-only fields (`@perm` without R) from data returned to callers. */
+  private readable(data: unknown): T {
+    const fieldPerms = this.options.fieldPerms as Record<string, number> | undefined;
+    return fieldPerms ? stripUnreadableFields(data as T, fieldPerms) : (data as T);
+  }
+
+  /**
+   * Writing `next` over `current` may only change writable fields. A record
+   * that does not exist yet may initialize read-only fields.
+   */
+  private checkFieldWrites(current: T | null, next: T): void {
+    const fieldPerms = this.options.fieldPerms as Record<string, number> | undefined;
+    if (!fieldPerms || current === null) return;
+    const before = current as Record<string, unknown>;
+    const after = next as Record<string, unknown>;
+    const changed: Record<string, unknown> = {};
+    for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+        changed[field] = after[field] ?? null;
+      }
+    }
+    checkWritableFields(changed, fieldPerms);
+  }
+
+  private validate(value: T): void {
+    if (!this.options.shape) return;
+    const issues = validateShape(this.options.shape, value);
+    if (issues.length > 0) {
+      throw new ValidationError(issues, `Invalid ${this.name} record`);
+    }
+  }
+
+  /** Whether any field is read-only, so writes must be compared to the stored record. */
+  private get hasReadOnlyFields(): boolean {
+    return Object.values(this.options.fieldPerms ?? {}).some((bits) => !((bits as number) & 0b010));
+  }
+
+  private async readLatest(ptr: string, id: string): Promise<T | null> {
+    const p = new SqlParams();
     const result = await this.pg.query(
       `SELECT data FROM ${ptr}
-       WHERE id = $1 
-         AND _txid < $2
-         AND (_deleted_txid IS NULL OR _deleted_txid >= $2)`,
-      [id, this.ctx.currentTxid]
+       WHERE id = ${p.add(id)}
+         AND ${this.visible(ptr, p)}`,
+      p.values
     );
+    this.ctx.tx?.trackRead(`${ptr}:${id}`, () => this.currentStamp(ptr, id));
     return (result.rows[0]?.data as T) ?? null;
   }
 
+  /**
+   * Write a new version of the record. Older versions stay in place for
+   * transactions that began earlier; the list position is inherited.
+   */
   async set(id: string, value: T): Promise<void> {
-    const ptr = await this.getPtr();
-    await this.pg.query(
-      `INSERT INTO ${ptr} (id, data, _txid, _owner)
-       VALUES ($1, $2, $3, $4)
-       ON CONFLICT (id) DO UPDATE
-       SET data = EXCLUDED.data, _txid = EXCLUDED._txid`,
-      [id, JSON.stringify(value), this.ctx.currentTxid, this.ctx.owner]
+    this.assertWritable();
+    this.validate(value);
+    const ptr = await this.authorize('write');
+    if (this.hasReadOnlyFields) this.checkFieldWrites(await this.readLatest(ptr, id), value);
+    await this.journal(ptr, id);
+    await this.writeVersion(ptr, id, value, false);
+  }
+
+  /**
+   * Create a record keyed by its primary key field. Throws `ConflictError`
+   * if a visible record with that id already exists.
+   */
+  async insert(value: T): Promise<string> {
+    this.assertWritable();
+    const id = this.keyOf(value);
+    this.validate(value);
+    const ptr = await this.authorize('write');
+    await this.journal(ptr, id);
+    if (!(await this.writeVersion(ptr, id, value, true))) {
+      throw new ConflictError(`Record ${id} already exists in ${this.name}`);
+    }
+    return id;
+  }
+
+  /** Create or replace a record keyed by its primary key field. */
+  async upsert(value: T): Promise<string> {
+    const id = this.keyOf(value);
+    await this.set(id, value);
+    return id;
+  }
+
+  private keyOf(value: T): string {
+    const field = this.options.primaryKey;
+    if (!field) throw new Error(`Table ${this.name} has no primary key`);
+    const key = (value as Record<string, unknown>)[field];
+    if (key === undefined || key === null || key === '') {
+      throw new ValidationError(
+        [{ path: field, message: 'is required' }],
+        `Missing primary key field '${field}' for ${this.name}`
+      );
+    }
+    return String(key);
+  }
+
+  /**
+   * Insert version (id, currentTxid). With `onlyIfAbsent`, nothing is
+   * written while a visible version exists; returns whether a row was written.
+   */
+  private async writeVersion(ptr: string, id: string, value: T, onlyIfAbsent: boolean): Promise<boolean> {
+    const p = new SqlParams();
+    const idRef = p.add(id);
+    const dataRef = p.add(JSON.stringify(value));
+    const txidRef = p.add(this.ctx.currentTxid);
+    const ownerRef = p.add(this.ctx.owner);
+    const guard = onlyIfAbsent
+      ? `WHERE NOT EXISTS (SELECT 1 FROM ${ptr} WHERE id = ${idRef} AND ${this.visible(ptr, p)})`
+      : '';
+    const result = await this.pg.query(
+      `INSERT INTO ${ptr} (id, data, _order, _txid, _owner)
+       SELECT ${idRef}, ${dataRef},
+         COALESCE(
+           (SELECT _order FROM ${ptr} WHERE id = ${idRef}${this.ownerFilter(p)} ORDER BY _txid DESC LIMIT 1),
+           nextval(pg_get_serial_sequence('${ptr}', '_order'))),
+         ${txidRef}, ${ownerRef}
+       ${guard}
+       ON CONFLICT (id, _txid) DO UPDATE
+       SET data = EXCLUDED.data, _deleted_txid = NULL
+       RETURNING id`,
+      p.values
     );
+    return onlyIfAbsent ? !!result.rows[0] : true;
   }
 
   async delete(id: string): Promise<boolean> {
-    const ptr = await this.getPtr();
+    this.assertWritable();
+    const ptr = await this.authorize('delete');
+    await this.journal(ptr, id);
+    const p = new SqlParams();
     const result = await this.pg.query(
-      `UPDATE ${ptr} SET _deleted_txid = $2 WHERE id = $1 RETURNING id`,
-      [id, this.ctx.currentTxid]
+      `UPDATE ${ptr} SET _deleted_txid = ${p.add(this.ctx.currentTxid)}
+       WHERE id = ${p.add(id)}
+         AND ${this.visible(ptr, p)}
+       RETURNING id`,
+      p.values
     );
+    this.journalDeleted(ptr, id);
     return !!result.rows[0];
   }
 
+  /**
+   * Read many records with one `id = ANY(...)` statement per chunk.
+   * Results follow `ids`; records that do not exist read as null.
+   */
+  async getMany(ids: string[], options: BulkOptions = {}): Promise<Array<T | null>> {
+    const ptr = await this.authorize('read');
+    const found = await this.readMany(ptr, ids, options);
+    return ids.map((id) => (found.has(id) ? this.readable(found.get(id)) : null));
+  }
+
+  private async readMany(ptr: string, ids: string[], options: BulkOptions): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    for (const chunk of chunksOf([...new Set(ids)], options)) {
+      const p = new SqlParams();
+      const result = await this.pg.query(
+        `SELECT id, data FROM ${ptr}
+         WHERE id = ANY(${p.add(chunk)}::text[])
+           AND ${this.visible(ptr, p)}`,
+        p.values
+      );
+      for (const row of result.rows) found.set(String(row.id), row.data as T);
+      for (const id of chunk) {
+        this.ctx.tx?.trackRead(`${ptr}:${id}`, () => this.currentStamp(ptr, id));
+      }
+    }
+    return found;
+  }
+
+  /**
+   * `set` for many records: one multi-row INSERT per chunk. Every value is
+   * validated (and checked against read-only fields) before the first
+   * chunk is written. A repeated id keeps its last value.
+   */
+  async setMany(entries: Iterable<[string, T]>, options: BulkOptions = {}): Promise<void> {
+    this.assertWritable();
+    const records = new Map(entries);
+    for (const value of records.values()) this.validate(value);
+    const chunks = chunksOf([...records.keys()], options);
+    const ptr = await this.authorize('write');
+    if (this.hasReadOnlyFields) {
+      for (const chunk of chunks) {
+        const current = await this.readMany(ptr, chunk, options);
+        for (const id of chunk) this.checkFieldWrites(current.get(id) ?? null, records.get(id) as T);
+      }
+    }
+    for (const chunk of chunks) {
+      await this.journalMany(ptr, chunk);
+      const p = new SqlParams();
+      const idsRef = p.add(chunk);
+      const dataRef = p.add(chunk.map((id) => JSON.stringify(records.get(id))));
+      await this.pg.query(
+        `INSERT INTO ${ptr} (id, data, _order, _txid, _owner)
+         SELECT v.id, v.data::jsonb,
+           COALESCE(
+             (SELECT _order FROM ${ptr} WHERE id = v.id${this.ownerFilter(p)} ORDER BY _txid DESC LIMIT 1),
+             nextval(pg_get_serial_sequence('${ptr}', '_order'))),
+           ${p.add(this.ctx.currentTxid)}, ${p.add(this.ctx.owner)}
+         FROM unnest(${idsRef}::text[], ${dataRef}::text[]) AS v(id, data)
+         ON CONFLICT (id, _txid) DO UPDATE
+         SET data = EXCLUDED.data, _deleted_txid = NULL`,
+        p.values
+      );
+    }
+  }
+
+  /** `delete` for many records, one statement per chunk; returns how many were deleted. */
+  async deleteMany(ids: string[], options: BulkOptions = {}): Promise<number> {
+    this.assertWritable();
+    const chunks = chunksOf([...new Set(ids)], options);
+    const ptr = await this.authorize('delete');
+    let deleted = 0;
+    for (const chunk of chunks) {
+      await this.journalMany(ptr, chunk);
+      const p = new SqlParams();
+      const result = await this.pg.query(
+        `UPDATE ${ptr} SET _deleted_txid = ${p.add(this.ctx.currentTxid)}
+         WHERE id = ANY(${p.add(chunk)}::text[])
+           AND ${this.visible(ptr, p)}
+         RETURNING id`,
+        p.values
+      );
+      deleted += result.rows.length;
+      this.ctx.tx?.onRollback(async () => {
+        await this.pg.query(
+          `UPDATE ${ptr} SET _deleted_txid = NULL WHERE id = ANY($1::text[]) AND _deleted_txid = $2`,
+          [chunk, this.ctx.currentTxid]
+        );
+      });
+    }
+    return deleted;
+  }
+
   async update(id: string, partial: Partial<T>): Promise<void> {
-    const current = await this.get(id);
+    this.assertWritable();
+    const ptr = await this.authorize('write');
+    const current = await this.readLatest(ptr, id);
     const base = (current ?? {}) as Record<string, unknown>;
     const next = Object.assign({}, base, partial as Record<string, unknown>) as T;
-    await this.set(id, next);
+    this.validate(next);
+    this.checkFieldWrites(current, next);
+    await this.journal(ptr, id);
+    await this.writeVersion(ptr, id, next, false);
   }
 
+  /** Append to the list. `_order` comes from the table's sequence, so concurrent pushes never collide. */
   async push(value: T): Promise<string> {
-    const id = globalThis.crypto?.randomUUID
-      ? globalThis.crypto.randomUUID()
-      : `${Date.now()}-${Math.random()}`;
-    const ptr = await this.getPtr();
+    this.assertWritable();
+    this.validate(value);
+    const ptr = await this.authorize('write');
+    const id = newId();
     await this.pg.query(
       `INSERT INTO ${ptr} (id, data, _order, _txid, _owner)
-       VALUES ($1, $2, 
-         (SELECT COALESCE(MAX(_order), 0) + 1 FROM ${ptr}),
-         $3, $4)`,
+       VALUES ($1, $2, nextval(pg_get_serial_sequence('${ptr}', '_order')), $3, $4)`,
       [id, JSON.stringify(value), this.ctx.currentTxid, this.ctx.owner]
     );
+    this.journalCreated(ptr, id);
     return id;
   }
 
-  async pop(): Promise<T | null> {
-    const ptr = await this.getPtr();
-    const result = await this.pg.query(
-      `DELETE FROM ${ptr}
-       WHERE _order = (SELECT MAX(_order) FROM ${ptr})
-         AND _txid < $1
-       RETURNING data`,
-      [this.ctx.currentTxid]
+  /**
+   * Insert before the item now at `index`; past the end this appends.
+   * Items ahead of it in `(_order, id)` order move two `_order` down in
+   * place and the new item takes the slot right below the target, so it
+   * lands between them even when the target shares its `_order` with an
+   * earlier item. That keeps relative order and stays clear of values the
+   * sequence will hand out. The shift is not journaled: rolling back
+   * removes only the new item, since undoing the shift could reorder items
+   * inserted since.
+   */
+  async insertAt(index: number, value: T): Promise<string> {
+    this.assertWritable();
+    assertIndex(index);
+    this.validate(value);
+    const ptr = await this.authorize('write');
+    const id = newId();
+    const p = new SqlParams();
+    await this.pg.query(
+      `WITH target AS (
+         SELECT _order, id FROM ${ptr}
+         WHERE ${this.visible(ptr, p)}
+         ORDER BY _order, id
+         LIMIT 1 OFFSET ${p.add(index)}
+       ), shifted AS (
+         UPDATE ${ptr} SET _order = _order - 2
+         WHERE (_order, id) < (SELECT _order, id FROM target)${this.ownerFilter(p)}
+       )
+       INSERT INTO ${ptr} (id, data, _order, _txid, _owner)
+       SELECT ${p.add(id)}, ${p.add(JSON.stringify(value))},
+         COALESCE((SELECT _order - 1 FROM target), nextval(pg_get_serial_sequence('${ptr}', '_order'))),
+         ${p.add(this.ctx.currentTxid)}, ${p.add(this.ctx.owner)}`,
+      p.values
     );
-    return (result.rows[0]?.data as T) ?? null;
+    this.journalCreated(ptr, id);
+    return id;
+  }
+
+  /** Remove and return the last item. */
+  async pop(): Promise<T | null> {
+    return this.take('DESC');
   }
 
+  /** Remove and return the first item. */
   async shift(): Promise<T | null> {
-    const ptr = await this.getPtr();
+    return this.take('ASC');
+  }
+
+  /**
+   * Mark the first visible item in `direction` deleted and return it.
+   * Items another transaction already claimed (any `_deleted_txid`, even
+   * uncommitted) are passed over, and `SKIP LOCKED` steps past rows a
+   * concurrent pop is claiming right now, so each item is taken once.
+   */
+  private async take(direction: 'ASC' | 'DESC'): Promise<T | null> {
+    this.assertWritable();
+    const ptr = await this.authorize('delete');
+    const p = new SqlParams();
+    const visible = this.visible(ptr, p);
+    const txidRef = p.add(this.ctx.currentTxid);
     const result = await this.pg.query(
-      `DELETE FROM ${ptr}
-       WHERE _order = (SELECT MIN(_order) FROM ${ptr})
-         AND _txid < $1
-       RETURNING data`,
-      [this.ctx.currentTxid]
+      `UPDATE ${ptr} AS target SET _deleted_txid = ${txidRef}
+       WHERE (target.id, target._txid) = (
+         SELECT id, _txid FROM ${ptr}
+         WHERE ${visible} AND _deleted_txid IS NULL
+         ORDER BY _order ${direction}, id ${direction}
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED)
+       RETURNING target.id, target.data, ${this.stamp(ptr, 'target.id', txidRef, this.stampOwner(p.values))} AS stamp`,
+      p.values
     );
-    return (result.rows[0]?.data as T) ?? null;
+    const row = result.rows[0];
+    if (!row) return null;
+    const id = String(row.id);
+    this.trackWrite(ptr, id, toStamp(row.stamp));
+    this.journalDeleted(ptr, id);
+    return this.readable(row.data);
   }
 
-  async *query(filter: Partial<T>): AsyncIterableIterator<T> {
-    const ptr = await this.getPtr();
-    const sql = `SELECT data FROM ${ptr}
-      WHERE data @> $1::jsonb AND _txid < $2
-      ORDER BY _order`;
-    const res = await this.pg.query(sql, [JSON.stringify(filter), this.ctx.currentTxid]);
-    for (const r of res.rows) {
-      yield r.data as T;
+  /** Items from `start` up to (not including) `end`, in list order; negative indices count from the end. */
+  async slice(start = 0, end?: number): Promise<T[]> {
+    if (start < 0 || (end !== undefined && end < 0)) {
+      const length = await this.length();
+      start = start < 0 ? Math.max(length + start, 0) : start;
+      end = end !== undefined && end < 0 ? Math.max(length + end, 0) : end;
     }
+    if (end !== undefined && end <= start) return [];
+    const query = this.find().offset(start);
+    return end === undefined ? query.all() : query.limit(end - start).all();
   }
 
-  async exec(sql: string, params?: unknown[]): Promise<{ rows: Array<Record<string, unknown>> }> {
-    const ptr = await this.getPtr();
-    const rewritten = sql.replace(
-      new RegExp(`\\b${this.name}\\b`, 'g'),
-      ptr
+  /** Number of visible items. */
+  async length(): Promise<number> {
+    return this.count();
+  }
+
+  /**
+   * JSONB containment query. Rows are fetched `pageSize` at a time in
+   * list order, so iterating a large table never loads it at once.
+   */
+  async *query(filter: Partial<T>, options: { pageSize?: number } = {}): AsyncIterableIterator<T> {
+    yield* this.find().match(filter).stream(options.pageSize);
+  }
+
+  /**
+   * Every version of a record visible to this transaction, oldest first.
+   * Deletes by transactions we cannot see are reported as null.
+   */
+  async *history(id: string): AsyncIterableIterator<RecordVersion<T>> {
+    const ptr = await this.authorize('read');
+    const p = new SqlParams();
+    const sees = this.sees(p);
+    const res = await this.pg.query(
+      `SELECT data, _txid,
+         CASE WHEN ${sees('_deleted_txid')} THEN _deleted_txid END AS _deleted_txid
+       FROM ${ptr}
+       WHERE id = ${p.add(id)} AND ${sees('_txid')}${this.ownerFilter(p)}
+       ORDER BY _txid`,
+      p.values
     );
-    if (containsOtherTables(rewritten, ptr)) {
-      throw new Error('Cannot access other tables');
+    for (const r of res.rows) {
+      yield {
+        data: this.readable(r.data),
+        _txid: BigInt(String(r._txid)),
+        _deleted_txid: toStamp(r._deleted_txid),
+      };
+    }
+  }
+
+  /** Start a query with comparison filters, ordering and paging. */
+  find(): QueryBuilder<T> {
+    return new QueryBuilder<T>(this.pg, async (p) => {
+      const ptr = await this.authorize('read');
+      return { ptr, visible: this.visible(ptr, p) };
+    }, {
+      project: (data) => this.readable(data),
+      readable: (field) => this.isReadableField(field),
+      relation: (field) => this.relation(field),
+    });
+  }
+
+  /**
+   * Query with the record referenced by `field` attached to each result as
+   * `as`; see `QueryBuilder.include`.
+   */
+  include<K extends string, R = unknown>(field: FieldPath<T>, as: K): QueryBuilder<T & { [P in K]: R | null }> {
+    return this.find().include<K, R>(field, as);
+  }
+
+  /**
+   * Join source for a `@ref` field. The related table is resolved through
+   * `storage` for the same owner and checked for read permission like any
+   * direct read; its visibility predicate and field permissions apply.
+   */
+  private relation(field: string): Join {
+    const relation = (this.options.relations as Record<string, Relation> | undefined)?.[field];
+    if (!relation) throw new Error(`No relation declared on ${this.name}.${field}`);
+    const related = new TableProxy<unknown>(this.pg, relation.table, this.ctx, relation.options);
+    related.asOfTxid = this.asOfTxid;
+    related.allOwners = this.allOwners;
+    return {
+      compile: async (p, outer, path) => {
+        const ptr = await related.authorize('read');
+        // Owners may reuse ids, so an unscoped view pairs each row with its own owner's record.
+        const owner = relation.options?.ownerScoped ? ` AND rel._owner = ${outer}._owner` : '';
+        return `(SELECT rel.data FROM ${ptr} rel
+           WHERE rel.id = ${outer}.data #>> ${p.add(path)}::text[]${owner}
+             AND ${related.visible(ptr, p, 'rel')})`;
+      },
+      project: (data) => related.readable(data),
+    };
+  }
+
+  /** Whether `@perm` lets callers read a field; unlisted fields are readable. */
+  private isReadableField(field: string): boolean {
+    const bits = (this.options.fieldPerms as Record<string, number> | undefined)?.[field];
+    return bits === undefined || (bits & 0b100) !== 0;
+  }
+
+  /** Start a query, narrowed by JSONB containment when `filter` is given. */
+  private filtered(filter?: Partial<T>): QueryBuilder<T> {
+    const query = this.find();
+    return filter ? query.match(filter) : query;
+  }
+
+  /** Number of records matching `filter`. */
+  async count(filter?: Partial<T>): Promise<number> {
+    return this.filtered(filter).count();
+  }
+
+  /** Sum of a numeric field over records matching `filter`. */
+  async sum(path: FieldPath<T>, filter?: Partial<T>): Promise<number | null> {
+    return this.filtered(filter).sum(path);
+  }
+
+  async avg(path: FieldPath<T>, filter?: Partial<T>): Promise<number | null> {
+    return this.filtered(filter).avg(path);
+  }
+
+  async min<P extends FieldPath<T>>(path: P, filter?: Partial<T>): Promise<FieldValue<T, P> | null> {
+    return this.filtered(filter).min(path);
+  }
+
+  async max<P extends FieldPath<T>>(path: P, filter?: Partial<T>): Promise<FieldValue<T, P> | null> {
+    return this.filtered(filter).max(path);
+  }
+
+  /** Aggregates per distinct value of `path`; see `QueryBuilder.groupBy`. */
+  async groupBy<P extends FieldPath<T>, A extends Aggregates<T>>(
+    path: P,
+    aggregates: A,
+    filter?: Partial<T>
+  ): Promise<Array<Group<T, P, A>>> {
+    return this.filtered(filter).groupBy(path, aggregates);
+  }
+
+  /**
+   * Raw SQL reads against this table only (see `guardSql`); they see the
+   * same versions as `get`. Write statements throw `ForbiddenError`: they
+   * would edit or remove committed versions in place, outside the version
+   * history and the undo log.
+   */
+  async exec(sql: string, params: unknown[] = []): Promise<{ rows: Array<Record<string, unknown>> }> {
+    const statement = guardSql(sql, this.name);
+    const writes = statement.operations.some((op) => op !== 'read');
+    if (this.readOnly !== undefined || writes) this.assertWritable();
+    if (writes) {
+      throw new ForbiddenError(`exec cannot write to ${this.name}: use set, update or delete`);
     }
-    return await this.pg.query(rewritten, params);
+    const ptr = await this.authorize(...statement.operations);
+    const p = new SqlParams([...params]);
+    const rewritten = statement.rewrite(ptr, () => this.visible(ptr, p));
+    return await this.pg.query(rewritten, p.values);
   }
 }
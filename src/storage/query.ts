@@ -0,0 +1,521 @@
+/**
+ * Query builder for TableProxy.
+ *
+ * Compiles filters on (nested) JSONB fields, ordering and paging into a
+ * single parameterized statement against the resolved ptr. The MVCC
+ * visibility predicate is always applied.
+ *
+ * Results are fetched in keyset pages: every statement orders by the sort
+ * keys, then `_order`, then `id`, and the next page starts strictly after
+ * the last row seen. Cursors handed to clients encode that position.
+ */
+
+import type { PGClient } from './TableProxy';
+import { SqlParams } from './sql';
+import { ForbiddenError, HttpError } from '../runtime/http';
+
+export type QueryOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'like';
+
+/** A top-level field of `T`, or a dotted path into nested objects. */
+export type FieldPath<T> = Extract<keyof T, string> | `${string}.${string}`;
+
+export type SortDirection = 'asc' | 'desc';
+
+/** Resolves the physical table and its visibility predicate for one statement. */
+export type QueryScope = (p: SqlParams) => Promise<{ ptr: string; visible: string }>;
+
+/** A related record fetched alongside each result by `include`. */
+export interface Join {
+  /**
+   * Correlated subquery selecting the related record's `data` for the row
+   * of `outer` (the queried table) whose field at `path` holds its id.
+   */
+  compile(p: SqlParams, outer: string, path: string[]): Promise<string>;
+  project(data: unknown): unknown;
+}
+
+export interface QueryOptions<T> {
+  /** Maps each stored `data` value to the result, e.g. to strip fields the caller may not read */
+  project?: (data: unknown) => T;
+  /** Whether a top-level field may be aggregated, grouped or joined on */
+  readable?: (field: string) => boolean;
+  /** Resolves the relation declared on a field, for `include` */
+  relation?: (field: string) => Join;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Opaque token for the following page, `null` on the last one */
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 500;
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/** `['count']` counts records; every other form names the field it reads. */
+export type Aggregate<T> = readonly ['count'] | readonly [AggregateFunction, FieldPath<T>];
+
+export type Aggregates<T> = Record<string, Aggregate<T>>;
+
+/** Type of a top-level field; nested paths are not tracked. */
+export type FieldValue<T, P> = P extends keyof T ? T[P] : unknown;
+
+export type AggregateValue<T, A> =
+  A extends readonly ['count', ...unknown[]] ? number
+  : A extends readonly ['sum' | 'avg', unknown] ? number | null
+  : A extends readonly ['min' | 'max', infer P] ? FieldValue<T, P> | null
+  : never;
+
+export type AggregateResult<T, A extends Aggregates<T>> = { [K in keyof A]: AggregateValue<T, A[K]> };
+
+export interface Group<T, P, A extends Aggregates<T>> {
+  /** Value of the grouping field; records without it form the `null` group */
+  key: FieldValue<T, P> | null;
+  values: AggregateResult<T, A>;
+}
+
+interface Sort {
+  path: string[];
+  dir: SortDirection;
+}
+
+/** Position of a row in the result order; a missing sort field is `[]`. */
+interface CursorState {
+  keys: Array<[unknown] | []>;
+  order: string;
+  id: string;
+}
+
+const COMPARISONS: Partial<Record<QueryOperator, string>> = {
+  eq: '=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+function parsePath(path: string): string[] {
+  const segments = path.split('.');
+  if (segments.some((s) => s.length === 0)) {
+    throw new Error(`Invalid field path: ${path}`);
+  }
+  return segments;
+}
+
+function checkCount(name: string, n: number): number {
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return n;
+}
+
+function checkPageSize(n: number): number {
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error('page size must be a positive integer');
+  }
+  return n;
+}
+
+const FIELD_NAME = /^[a-zA-Z0-9_]+$/;
+
+/**
+ * SQL for `data #> path` (`data #>> path` when `text`). A top-level field
+ * compiles to `data->'field'`, the expression `@index` indexes, so
+ * Postgres can use the index for it.
+ */
+function fieldSql(path: string[], p: SqlParams, text = false): string {
+  if (path.length === 1 && FIELD_NAME.test(path[0])) {
+    return `data${text ? '->>' : '->'}'${path[0]}'`;
+  }
+  return `data ${text ? '#>>' : '#>'} ${p.add(path)}::text[]`;
+}
+
+/** JS counterpart of `data #> path`: `[]` when the field is missing. */
+function readPath(data: unknown, path: string[]): [unknown] | [] {
+  let cur = data;
+  for (const seg of path) {
+    if (cur === null || typeof cur !== 'object' || !(seg in cur)) return [];
+    cur = (cur as Record<string, unknown>)[seg];
+  }
+  return [cur];
+}
+
+function encodeCursor(state: CursorState): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([state.keys, state.order, state.id]));
+  const binStr = Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+  return btoa(binStr).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string, sortCount: number): CursorState {
+  let parsed: unknown;
+  try {
+    const binStr = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    parsed = JSON.parse(new TextDecoder().decode(Uint8Array.from(binStr, (c) => c.charCodeAt(0))));
+  } catch {
+    parsed = undefined;
+  }
+  if (
+    Array.isArray(parsed) && parsed.length === 3 &&
+    Array.isArray(parsed[0]) && parsed[0].length === sortCount &&
+    parsed[0].every((k) => Array.isArray(k) && k.length <= 1) &&
+    typeof parsed[1] === 'string' && typeof parsed[2] === 'string'
+  ) {
+    return { keys: parsed[0] as CursorState['keys'], order: parsed[1], id: parsed[2] };
+  }
+  throw new HttpError('Invalid cursor', 400, 'INVALID_REQUEST');
+}
+
+export class QueryBuilder<T> {
+  private conditions: Array<(p: SqlParams) => string> = [];
+  private sorts: Sort[] = [];
+  private joins: Array<{ as: string; path: string[]; join: Join }> = [];
+  private limitCount?: number;
+  private offsetCount?: number;
+
+  constructor(
+    private pg: PGClient,
+    private scope: QueryScope,
+    private options: QueryOptions<T> = {}
+  ) {}
+
+  /**
+   * Filter on a field. Comparisons use JSONB ordering, so numbers compare
+   * numerically and strings lexically; `like` matches the field as text.
+   * Fields callers may not read throw `ForbiddenError`, since the filter
+   * would reveal their values.
+   */
+  where(path: FieldPath<T>, op: 'in', value: unknown[]): this;
+  where(path: FieldPath<T>, op: 'like', value: string): this;
+  where(path: FieldPath<T>, op: Exclude<QueryOperator, 'in' | 'like'>, value: unknown): this;
+  where(path: FieldPath<T>, op: QueryOperator, value: unknown): this {
+    if (op === 'in' && !Array.isArray(value)) {
+      throw new Error("'in' expects an array");
+    }
+    const segments = parsePath(path);
+    this.checkReadable(segments);
+    this.conditions.push((p) => this.compileCondition(segments, op, value, p));
+    return this;
+  }
+
+  /**
+   * Filter by JSONB containment (`data @> filter`), as `TableProxy.query`
+   * does. Scalar values compile to equality on the field so `@index` applies.
+   */
+  match(filter: Partial<T>): this {
+    for (const [field, value] of Object.entries(filter)) {
+      if (value === undefined) continue;
+      this.checkReadable([field]);
+      this.conditions.push((p) => value !== null && typeof value === 'object'
+        ? `data @> ${p.add(JSON.stringify({ [field]: value }))}::jsonb`
+        : `${fieldSql([field], p)} = ${p.add(JSON.stringify(value))}::jsonb`);
+    }
+    return this;
+  }
+
+  /**
+   * Attach the record that the relation declared on `field` points to,
+   * as property `as` of each result (`null` when it does not exist or is
+   * not visible). Fetched in the same statement as the results.
+   */
+  include<K extends string, R = unknown>(field: FieldPath<T>, as: K): QueryBuilder<T & { [P in K]: R | null }> {
+    const path = parsePath(field);
+    this.checkReadable(path);
+    if (!this.options.relation) throw new Error(`No relation declared on ${field}`);
+    this.joins.push({ as, path, join: this.options.relation(path.join('.')) });
+    return this as unknown as QueryBuilder<T & { [P in K]: R | null }>;
+  }
+
+  /**
+   * Sort by a field; later calls break ties. List order (`_order`) breaks
+   * the rest. The field must be readable: its values end up in cursors.
+   */
+  orderBy(path: FieldPath<T>, dir: SortDirection = 'asc'): this {
+    const segments = parsePath(path);
+    this.checkReadable(segments);
+    this.sorts.push({ path: segments, dir });
+    return this;
+  }
+
+  limit(n: number): this {
+    this.limitCount = checkCount('limit', n);
+    return this;
+  }
+
+  offset(n: number): this {
+    this.offsetCount = checkCount('offset', n);
+    return this;
+  }
+
+  async all(): Promise<T[]> {
+    const out: T[] = [];
+    for await (const row of this) out.push(row);
+    return out;
+  }
+
+  async first(): Promise<T | null> {
+    const saved = this.limitCount;
+    this.limitCount = 1;
+    try {
+      const [row] = await this.all();
+      return row ?? null;
+    } finally {
+      this.limitCount = saved;
+    }
+  }
+
+  /**
+   * Number of matching records, or of those where `path` holds a non-null
+   * value. Aggregates ignore ordering and paging.
+   */
+  async count(path?: FieldPath<T>): Promise<number> {
+    if (path !== undefined) return (await this.aggregate({ count: ['count', path] })).count;
+    const p = new SqlParams();
+    const { ptr, where } = await this.compileWhere(p);
+    const res = await this.pg.query(`SELECT COUNT(*) AS count FROM ${ptr} WHERE ${where}`, p.values);
+    return Number(res.rows[0]?.count ?? 0);
+  }
+
+  /** Sum of the numeric values of a field; `null` when there are none. */
+  async sum(path: FieldPath<T>): Promise<number | null> {
+    return (await this.aggregate({ sum: ['sum', path] })).sum;
+  }
+
+  async avg(path: FieldPath<T>): Promise<number | null> {
+    return (await this.aggregate({ avg: ['avg', path] })).avg;
+  }
+
+  /**
+   * Smallest value of a field. Numbers compare numerically; a field holding
+   * no numbers compares its strings as text, so ISO dates work too.
+   */
+  async min<P extends FieldPath<T>>(path: P): Promise<FieldValue<T, P> | null> {
+    return (await this.aggregate({ min: ['min', path] as const })).min;
+  }
+
+  async max<P extends FieldPath<T>>(path: P): Promise<FieldValue<T, P> | null> {
+    return (await this.aggregate({ max: ['max', path] as const })).max;
+  }
+
+  /** Several aggregates over the matching records in one statement. */
+  async aggregate<A extends Aggregates<T>>(aggregates: A): Promise<AggregateResult<T, A>> {
+    const p = new SqlParams();
+    const columns = this.compileAggregates(aggregates, p);
+    const { ptr, where } = await this.compileWhere(p);
+    const res = await this.pg.query(`SELECT ${columns} FROM ${ptr}\n      WHERE ${where}`, p.values);
+    return this.readAggregates(aggregates, res.rows[0] ?? {});
+  }
+
+  /** Aggregates per distinct value of a field, ordered by that value. */
+  async groupBy<P extends FieldPath<T>, A extends Aggregates<T>>(
+    path: P,
+    aggregates: A
+  ): Promise<Array<Group<T, P, A>>> {
+    const p = new SqlParams();
+    const key = `NULLIF(${this.readableField(path, p)}, 'null'::jsonb)`;
+    const columns = this.compileAggregates(aggregates, p);
+    const { ptr, where } = await this.compileWhere(p);
+    const res = await this.pg.query(
+      `SELECT ${key} AS key, ${columns} FROM ${ptr}\n      WHERE ${where}\n      GROUP BY 1\n      ORDER BY 1`,
+      p.values
+    );
+    return res.rows.map((row) => ({
+      key: (row.key ?? null) as FieldValue<T, P> | null,
+      values: this.readAggregates(aggregates, row),
+    }));
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this.stream();
+  }
+
+  /**
+   * Iterate over all matches, fetching `pageSize` rows per statement so
+   * large tables never load at once. Honors `limit` and `offset`.
+   */
+  async *stream(pageSize = DEFAULT_PAGE_SIZE): AsyncIterableIterator<T> {
+    checkPageSize(pageSize);
+    let remaining = this.limitCount ?? Infinity;
+    let offset = this.offsetCount;
+    let after: CursorState | undefined;
+    while (remaining > 0) {
+      const limit = Math.min(pageSize, remaining);
+      const rows = await this.fetch({ after, limit, offset });
+      for (const row of rows) yield this.projectRow(row);
+      if (rows.length < limit) return;
+      remaining -= rows.length;
+      offset = undefined;
+      after = this.cursorOf(rows[rows.length - 1]);
+    }
+  }
+
+  /**
+   * One page of at most `limit` matches, starting after `cursor`. Pass the
+   * returned `nextCursor` back to continue. Cannot be combined with `offset`.
+   */
+  async page(options: { limit: number; cursor?: string | null }): Promise<Page<T>> {
+    if (this.offsetCount !== undefined) {
+      throw new Error('page() cannot be combined with offset()');
+    }
+    const limit = checkPageSize(options.limit);
+    const after = options.cursor ? decodeCursor(options.cursor, this.sorts.length) : undefined;
+    const rows = await this.fetch({ after, limit: limit + 1 });
+    const items = rows.slice(0, limit);
+    const nextCursor = rows.length > limit
+      ? encodeCursor(this.cursorOf(items[items.length - 1]))
+      : null;
+    return { items: items.map((r) => this.projectRow(r)), nextCursor };
+  }
+
+  /** Compile the SELECT statement, adding its parameters to `p`. */
+  async toSQL(p: SqlParams): Promise<string> {
+    return this.compileSelect(p, { limit: this.limitCount, offset: this.offsetCount });
+  }
+
+  private async fetch(opts: {
+    after?: CursorState;
+    limit?: number;
+    offset?: number;
+  }): Promise<Array<Record<string, unknown>>> {
+    const p = new SqlParams();
+    const res = await this.pg.query(await this.compileSelect(p, opts), p.values);
+    return res.rows;
+  }
+
+  private projectRow(row: Record<string, unknown>): T {
+    const data = this.options.project ? this.options.project(row.data) : (row.data as T);
+    if (this.joins.length === 0) return data;
+    const out = { ...data } as Record<string, unknown>;
+    this.joins.forEach(({ as, join }, i) => {
+      const related = row[`j${i}`];
+      out[as] = related === null || related === undefined ? null : join.project(related);
+    });
+    return out as T;
+  }
+
+  private cursorOf(row: Record<string, unknown>): CursorState {
+    return {
+      keys: this.sorts.map((s) => readPath(row.data, s.path)),
+      order: String(row._order),
+      id: String(row.id),
+    };
+  }
+
+  private async compileSelect(
+    p: SqlParams,
+    opts: { after?: CursorState; limit?: number; offset?: number }
+  ): Promise<string> {
+    const { ptr, where } = await this.compileWhere(p);
+    const conditions = opts.after ? `${where}\n        AND ${this.compileAfter(opts.after, p)}` : where;
+    const order = this.sorts.map(
+      (s) => `${fieldSql(s.path, p)} ${s.dir === 'desc' ? 'DESC' : 'ASC'}`
+    );
+    order.push('_order', 'id');
+    const columns = ['id', 'data', '_order'];
+    for (const [i, { path, join }] of this.joins.entries()) {
+      columns.push(`${await join.compile(p, ptr, path)} AS j${i}`);
+    }
+    let sql = `SELECT ${columns.join(', ')} FROM ${ptr}\n      WHERE ${conditions}\n      ORDER BY ${order.join(', ')}`;
+    if (opts.limit !== undefined) sql += ` LIMIT ${p.add(opts.limit)}`;
+    if (opts.offset !== undefined) sql += ` OFFSET ${p.add(opts.offset)}`;
+    return sql;
+  }
+
+  private async compileWhere(p: SqlParams): Promise<{ ptr: string; where: string }> {
+    const { ptr, visible } = await this.scope(p);
+    const clauses = this.conditions.map((c) => c(p));
+    clauses.push(visible);
+    return { ptr, where: clauses.join('\n        AND ') };
+  }
+
+  /**
+   * Keyset predicate: rows strictly after `after` in ORDER BY order.
+   * Missing fields (SQL NULL) sort last ascending and first descending.
+   */
+  private compileAfter(after: CursorState, p: SqlParams): string {
+    let clause = `(_order > ${p.add(after.order)} OR _order = ${p.add(after.order)} AND id > ${p.add(after.id)})`;
+    for (let i = this.sorts.length - 1; i >= 0; i--) {
+      const { path, dir } = this.sorts[i];
+      const key = fieldSql(path, p);
+      const bound = after.keys[i];
+      let greater: string;
+      let equal: string;
+      if (bound.length === 0) {
+        greater = dir === 'asc' ? 'FALSE' : `${key} IS NOT NULL`;
+        equal = `${key} IS NULL`;
+      } else {
+        const value = `${p.add(JSON.stringify(bound[0]))}::jsonb`;
+        greater = dir === 'asc' ? `(${key} > ${value} OR ${key} IS NULL)` : `${key} < ${value}`;
+        equal = `${key} = ${value}`;
+      }
+      clause = `(${greater} OR ${equal} AND ${clause})`;
+    }
+    return clause;
+  }
+
+  private checkReadable(path: string[]): void {
+    if (this.options.readable && !this.options.readable(path[0])) {
+      throw new ForbiddenError(`Cannot read field '${path[0]}'`);
+    }
+  }
+
+  /** `data #> path` for a field callers may read. */
+  private readableField(path: string, p: SqlParams): string {
+    const segments = parsePath(path);
+    this.checkReadable(segments);
+    return fieldSql(segments, p);
+  }
+
+  /** Aggregate columns, aliased `a0`, `a1`, ... in key order. */
+  private compileAggregates(aggregates: Aggregates<T>, p: SqlParams): string {
+    const specs = Object.values(aggregates);
+    if (specs.length === 0) throw new Error('At least one aggregate is required');
+    return specs.map((spec, i) => `${this.compileAggregate(spec, p)} AS a${i}`).join(', ');
+  }
+
+  /**
+   * Values are extracted from JSONB and cast per type: numbers to numeric,
+   * strings to text. Values of other types are ignored.
+   */
+  private compileAggregate([fn, path]: Aggregate<T>, p: SqlParams): string {
+    if (path === undefined) return 'COUNT(*)';
+    const field = this.readableField(path, p);
+    const number = `CASE WHEN jsonb_typeof(${field}) = 'number' THEN (${field} #>> '{}')::numeric END`;
+    switch (fn) {
+      case 'count':
+        return `COUNT(NULLIF(${field}, 'null'::jsonb))`;
+      case 'sum':
+      case 'avg':
+        return `${fn.toUpperCase()}(${number})::float8`;
+      default: {
+        const text = `CASE WHEN jsonb_typeof(${field}) = 'string' THEN ${field} #>> '{}' END`;
+        const agg = fn.toUpperCase();
+        return `COALESCE(to_jsonb(${agg}(${number})), to_jsonb(${agg}(${text})))`;
+      }
+    }
+  }
+
+  private readAggregates<A extends Aggregates<T>>(aggregates: A, row: Record<string, unknown>): AggregateResult<T, A> {
+    const out: Record<string, unknown> = {};
+    Object.entries(aggregates).forEach(([name, [fn]], i) => {
+      const value = row[`a${i}`] ?? null;
+      out[name] = fn === 'count' ? Number(value ?? 0)
+        : fn === 'sum' || fn === 'avg' ? (value === null ? null : Number(value))
+        : value;
+    });
+    return out as AggregateResult<T, A>;
+  }
+
+  private compileCondition(path: string[], op: QueryOperator, value: unknown, p: SqlParams): string {
+    if (op === 'like') return `${fieldSql(path, p, true)} LIKE ${p.add(value)}`;
+    const field = fieldSql(path, p);
+    switch (op) {
+      case 'ne':
+        return `${field} IS DISTINCT FROM ${p.add(JSON.stringify(value))}::jsonb`;
+      case 'in':
+        return `${field} IN (SELECT jsonb_array_elements(${p.add(JSON.stringify(value))}::jsonb))`;
+      default:
+        return `${field} ${COMPARISONS[op]} ${p.add(JSON.stringify(value))}::jsonb`;
+    }
+  }
+}
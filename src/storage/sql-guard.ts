@@ -0,0 +1,460 @@
+/**
+ * SQL guard for `TableProxy.exec`.
+ *
+ * A raw statement is tokenized (string literals, quoted identifiers,
+ * dollar quoting and comments included) and walked once to find every
+ * table it references. Only the proxy's own logical table and CTEs the
+ * statement declares may appear. Reads of the table are replaced with its
+ * visible rows; UPDATE and DELETE targets are limited to visible versions.
+ * Function calls are limited to an allowlist, since functions such as
+ * `query_to_xml` or `dblink` run queries of their own.
+ */
+
+import type { TableOperation } from '../security/permissions';
+
+export type SqlTokenKind = 'word' | 'identifier' | 'string' | 'param' | 'number' | 'symbol';
+
+export interface SqlToken {
+  kind: SqlTokenKind;
+  /** Words are lower-cased like Postgres folds them; quoted identifiers keep their case */
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface GuardedStatement {
+  /** Table permissions the statement needs */
+  operations: TableOperation[];
+  /**
+   * Render the statement against physical table `ptr`. `visible` returns
+   * the MVCC predicate for an unaliased `FROM ptr`; it is called at most once.
+   */
+  rewrite(ptr: string, visible: () => string): string;
+}
+
+const STATEMENTS = new Set(['select', 'with', 'values', 'insert', 'update', 'delete']);
+
+/** Words that end a FROM list. */
+const CLAUSES = new Set([
+  'where', 'group', 'having', 'order', 'limit', 'offset', 'fetch', 'window',
+  'union', 'intersect', 'except', 'for', 'returning', 'set',
+]);
+
+/** Words that may follow a table reference without being its alias. */
+const AFTER_TABLE = new Set([
+  ...CLAUSES, 'join', 'inner', 'left', 'right', 'full', 'cross', 'natural', 'on',
+  'using', 'values', 'default', 'select', 'overriding', 'tablesample', 'with',
+]);
+
+/** Keywords that may be followed by a parenthesis without calling a function. */
+const PAREN_KEYWORDS = new Set([
+  'select', 'from', 'where', 'and', 'or', 'not', 'in', 'exists', 'any', 'all', 'some', 'as',
+  'on', 'using', 'values', 'join', 'lateral', 'by', 'having', 'when', 'then', 'else', 'case',
+  'distinct', 'over', 'filter', 'group', 'union', 'intersect', 'except', 'materialized',
+  'conflict', 'set', 'returning', 'limit', 'offset', 'like', 'ilike', 'between', 'to', 'is',
+  'row', 'array', 'rollup', 'cube', 'sets', 'do', 'into', 'with', 'recursive', 'escape',
+]);
+
+/** Functions `exec` may call: none of them reads other tables or changes settings. */
+const SAFE_FUNCTIONS = new Set([
+  // aggregates and window functions
+  'count', 'sum', 'avg', 'min', 'max', 'bool_and', 'bool_or', 'every', 'array_agg', 'string_agg',
+  'json_agg', 'jsonb_agg', 'json_object_agg', 'jsonb_object_agg', 'row_number', 'rank',
+  'dense_rank', 'ntile', 'lag', 'lead', 'first_value', 'last_value',
+  // conditionals and special syntax
+  'coalesce', 'nullif', 'greatest', 'least', 'cast', 'extract', 'position', 'substring', 'trim',
+  'overlay',
+  // strings
+  'lower', 'upper', 'length', 'char_length', 'concat', 'concat_ws', 'left', 'right', 'replace',
+  'split_part', 'starts_with', 'btrim', 'ltrim', 'rtrim', 'lpad', 'rpad', 'md5', 'format',
+  // numbers
+  'abs', 'ceil', 'ceiling', 'floor', 'round', 'trunc', 'mod', 'power', 'sqrt',
+  // dates
+  'now', 'date_trunc', 'date_part', 'age', 'to_char', 'to_timestamp', 'to_date', 'make_date',
+  // JSON and arrays
+  'to_json', 'to_jsonb', 'json_build_object', 'json_build_array', 'jsonb_build_object',
+  'jsonb_build_array', 'jsonb_array_length', 'jsonb_array_elements', 'jsonb_array_elements_text',
+  'jsonb_each', 'jsonb_each_text', 'jsonb_object_keys', 'jsonb_typeof', 'jsonb_extract_path',
+  'jsonb_extract_path_text', 'jsonb_set', 'jsonb_strip_nulls', 'array_length', 'array_position',
+  'array_append', 'cardinality', 'unnest', 'generate_series',
+  // type modifiers, e.g. numeric(10, 2)
+  'numeric', 'decimal', 'varchar', 'char', 'character', 'bit', 'timestamp', 'time', 'interval', 'float',
+]);
+
+const WORD = /[A-Za-z_\u0080-\uffff][\w$\u0080-\uffff]*/y;
+const NUMBER = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const PARAM = /\$\d+/y;
+const DOLLAR_TAG = /\$(?:[A-Za-z_]\w*)?\$/y;
+
+function match(re: RegExp, sql: string, at: number): string | null {
+  re.lastIndex = at;
+  return re.exec(sql)?.[0] ?? null;
+}
+
+function skipQuoted(sql: string, at: number, quote: string, backslash: boolean): number {
+  let i = at + 1;
+  for (;;) {
+    if (i >= sql.length) {
+      throw new Error(quote === '"' ? 'Unterminated quoted identifier' : 'Unterminated string literal');
+    }
+    if (backslash && sql[i] === '\\') {
+      i += 2;
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) return i + 1;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+}
+
+function skipBlockComment(sql: string, at: number): number {
+  let depth = 0;
+  let i = at;
+  do {
+    if (i >= sql.length) throw new Error('Unterminated comment');
+    if (sql.startsWith('/*', i)) {
+      depth++;
+      i += 2;
+    } else if (sql.startsWith('*/', i)) {
+      depth--;
+      i += 2;
+    } else {
+      i++;
+    }
+  } while (depth > 0);
+  return i;
+}
+
+/** Split SQL into tokens, dropping whitespace and comments. */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  const push = (kind: SqlTokenKind, start: number, end: number, value = sql.slice(start, end)) => {
+    tokens.push({ kind, value, start, end });
+  };
+  let i = 0;
+  while (i < sql.length) {
+    const start = i;
+    const c = sql[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (sql.startsWith('--', i)) {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline + 1;
+    } else if (sql.startsWith('/*', i)) {
+      i = skipBlockComment(sql, i);
+    } else if (c === "'") {
+      i = skipQuoted(sql, i, "'", false);
+      push('string', start, i);
+    } else if (c === '"') {
+      i = skipQuoted(sql, i, '"', false);
+      push('identifier', start, i, sql.slice(start + 1, i - 1).replace(/""/g, '"'));
+    } else if (c === '$') {
+      const param = match(PARAM, sql, i);
+      const tag = param ? null : match(DOLLAR_TAG, sql, i);
+      if (param) {
+        i += param.length;
+        push('param', start, i);
+      } else if (tag) {
+        const close = sql.indexOf(tag, i + tag.length);
+        if (close === -1) throw new Error('Unterminated dollar-quoted string');
+        i = close + tag.length;
+        push('string', start, i);
+      } else {
+        i++;
+        push('symbol', start, i);
+      }
+    } else {
+      const word = match(WORD, sql, i);
+      const number = word ? null : match(NUMBER, sql, i);
+      if (word && word.length === 1 && /[eEbBxXnN]/.test(word) && sql[i + 1] === "'") {
+        // E'...' takes backslash escapes; B'', X'' and N'' quote like plain strings
+        i = skipQuoted(sql, i + 1, "'", /[eE]/.test(word));
+        push('string', start, i);
+      } else if (word) {
+        i += word.length;
+        push('word', start, i, word.toLowerCase());
+      } else if (number) {
+        i += number.length;
+        push('number', start, i);
+      } else {
+        i++;
+        push('symbol', start, i);
+      }
+    }
+  }
+  return tokens;
+}
+
+function isWord(token: SqlToken | undefined, ...words: string[]): boolean {
+  return token?.kind === 'word' && words.includes(token.value);
+}
+
+function isSymbol(token: SqlToken | undefined, symbol: string): boolean {
+  return token?.kind === 'symbol' && token.value === symbol;
+}
+
+function isName(token: SqlToken | undefined): token is SqlToken {
+  return token?.kind === 'word' || token?.kind === 'identifier';
+}
+
+/** Whether the name at `i` is declared as `name [(columns)] AS [[NOT] MATERIALIZED] (` after WITH or a comma. */
+function declaresCte(tokens: SqlToken[], i: number): boolean {
+  if (!isName(tokens[i]) || !(isWord(tokens[i - 1], 'with', 'recursive') || isSymbol(tokens[i - 1], ','))) return false;
+  let j = i + 1;
+  if (isSymbol(tokens[j], '(')) {
+    while (j < tokens.length && !isSymbol(tokens[j], ')')) j++;
+    j++;
+  }
+  if (!isWord(tokens[j++], 'as')) return false;
+  if (isWord(tokens[j], 'not')) j++;
+  if (isWord(tokens[j], 'materialized')) j++;
+  return isSymbol(tokens[j], '(');
+}
+
+function cteNames(tokens: SqlToken[]): Set<string> {
+  const names = new Set<string>();
+  tokens.forEach((token, i) => {
+    if (declaresCte(tokens, i)) names.add(token.value);
+  });
+  return names;
+}
+
+/**
+ * Throw if the name at `i`, which a parenthesis follows, calls a function
+ * outside `SAFE_FUNCTIONS`. Keywords, CTE declarations and column lists of
+ * aliases (`AS v(a, b)`, `f() t(x)`) are not calls.
+ */
+function checkCall(tokens: SqlToken[], i: number): void {
+  const t = tokens[i];
+  const prev = tokens[i - 1];
+  if (t.kind === 'word' && PAREN_KEYWORDS.has(t.value)) return;
+  if (isWord(prev, 'as') || isSymbol(prev, ')') || declaresCte(tokens, i)) return;
+  if (isSymbol(prev, '.')) throw new Error('Schema-qualified function calls are not allowed');
+  if (!SAFE_FUNCTIONS.has(t.value)) throw new Error(`Function ${t.value} is not allowed`);
+}
+
+type RefKind = 'read' | 'insert' | 'update' | 'delete';
+
+/** UPDATE or DELETE target whose rows are limited to visible versions. */
+interface WriteTarget {
+  kind: 'update' | 'delete';
+  qualifier: string;
+  where?: SqlToken;
+  /** Offset right after the statement's last token */
+  end?: number;
+}
+
+/** State of one parenthesis level. */
+interface Level {
+  /** SELECT, UPDATE or DELETE seen: FROM introduces tables */
+  query: boolean;
+  /** Inside a FROM list: commas separate table references */
+  fromList: boolean;
+  /** DELETE seen, its FROM names the target */
+  deleting: boolean;
+  usingSeen: boolean;
+  target?: WriteTarget;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  render: (ptr: string, predicate: () => string) => string;
+}
+
+const newLevel = (): Level => ({ query: false, fromList: false, deleting: false, usingSeen: false });
+
+/**
+ * Check a raw statement against logical table `table`. Throws on
+ * multiple statements, statements other than SELECT/INSERT/UPDATE/DELETE,
+ * `SELECT INTO`, references to any other table and calls to functions
+ * outside the allowlist.
+ */
+export function guardSql(sql: string, table: string): GuardedStatement {
+  const key = table.toLowerCase();
+  let tokens = tokenizeSql(sql);
+  const semicolon = tokens.findIndex((t) => isSymbol(t, ';'));
+  if (semicolon !== -1 && semicolon !== tokens.length - 1) {
+    throw new Error('Only one statement may be executed');
+  }
+  if (semicolon !== -1) tokens = tokens.slice(0, -1);
+  const first = tokens.find((t) => !isSymbol(t, '('));
+  if (!first) throw new Error('Empty statement');
+  if (!isWord(first, ...STATEMENTS)) {
+    throw new Error(`${sql.slice(first.start, first.end).toUpperCase()} statements are not allowed`);
+  }
+
+  const ctes = cteNames(tokens);
+  if (ctes.has(key)) throw new Error(`Common table expression cannot be named ${table}`);
+
+  const text = (t: SqlToken) => sql.slice(t.start, t.end);
+  const edits: Edit[] = [];
+  const targets: WriteTarget[] = [];
+  const operations = new Set<TableOperation>();
+  const levels: Level[] = [newLevel()];
+  let expect: RefKind | undefined;
+
+  const close = (level: Level, end: number) => {
+    if (level.target && level.target.end === undefined) level.target.end = end;
+  };
+
+  /** Handle the table name at `i`; returns false for a function call in FROM. */
+  const reference = (i: number, kind: RefKind): boolean => {
+    const t = tokens[i];
+    const next = tokens[i + 1];
+    if (kind === 'read' && isSymbol(next, '(')) return false;
+    if (isSymbol(next, '.')) throw new Error('Cannot access other tables');
+    if (kind === 'read' && ctes.has(t.value)) return true;
+    if (t.value !== key) throw new Error('Cannot access other tables');
+
+    const alias = isWord(next, 'as')
+      ? tokens[i + 2]
+      : next && (next.kind === 'identifier' || (next.kind === 'word' && !AFTER_TABLE.has(next.value)))
+        ? next
+        : undefined;
+    const as = alias ? '' : ` AS ${text(t)}`;
+    if (kind === 'read') {
+      operations.add('read');
+      edits.push({
+        start: t.start,
+        end: t.end,
+        render: (ptr, predicate) => `(SELECT * FROM ${ptr} WHERE ${predicate()})${as}`,
+      });
+      return true;
+    }
+    operations.add(kind === 'delete' ? 'delete' : 'write');
+    edits.push({ start: t.start, end: t.end, render: (ptr) => `${ptr}${as}` });
+    if (kind !== 'insert') {
+      const target: WriteTarget = { kind, qualifier: alias ? text(alias) : text(t) };
+      levels[levels.length - 1].target = target;
+      targets.push(target);
+    }
+    return true;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    const prev = tokens[i - 1];
+    const level = levels[levels.length - 1];
+
+    if (expect) {
+      if (isWord(t, 'lateral', 'only')) continue;
+      if (isSymbol(t, '(')) {
+        // subquery or parenthesized join; the first token inside decides
+        levels.push({ ...newLevel(), fromList: expect === 'read' });
+        continue;
+      }
+      const kind = expect;
+      expect = undefined;
+      if (isName(t) && !isWord(t, 'select', 'with', 'values')) {
+        if (reference(i, kind)) continue;
+      }
+    }
+    if (isName(t) && isSymbol(tokens[i + 1], '(')) checkCall(tokens, i);
+
+    if (t.kind === 'symbol') {
+      if (t.value === '(') {
+        levels.push(newLevel());
+      } else if (t.value === ')') {
+        if (levels.length === 1) throw new Error('Unbalanced parentheses');
+        close(levels.pop()!, prev.end);
+      } else if (t.value === ',' && level.fromList) {
+        expect = 'read';
+      }
+      continue;
+    }
+    if (t.kind !== 'word') continue;
+
+    switch (t.value) {
+      case 'select':
+        level.query = true;
+        level.fromList = false;
+        break;
+      case 'values':
+        level.fromList = false;
+        break;
+      case 'from':
+        if (level.deleting) {
+          level.deleting = false;
+          expect = 'delete';
+        } else if (level.query && !isWord(prev, 'distinct')) {
+          level.fromList = true;
+          expect = 'read';
+        }
+        break;
+      case 'join':
+        expect = 'read';
+        break;
+      case 'using':
+        // DELETE ... USING lists tables; JOIN ... USING lists columns
+        if (level.target?.kind === 'delete' && !level.usingSeen) {
+          level.usingSeen = true;
+          level.fromList = true;
+          expect = 'read';
+        }
+        break;
+      case 'into':
+        if (!isWord(prev, 'insert')) throw new Error('SELECT INTO is not allowed');
+        expect = 'insert';
+        break;
+      case 'update':
+        if (!isWord(prev, 'for', 'key', 'do')) {
+          level.query = true;
+          expect = 'update';
+        }
+        break;
+      case 'delete':
+        level.query = true;
+        level.deleting = true;
+        break;
+      case 'table':
+        throw new Error('TABLE queries are not supported');
+      case 'where':
+        level.fromList = false;
+        if (level.target && !level.target.where && !isWord(tokens[i + 1], 'current')) {
+          level.target.where = t;
+        }
+        break;
+      case 'returning':
+        level.fromList = false;
+        close(level, prev.end);
+        break;
+      default:
+        if (CLAUSES.has(t.value)) level.fromList = false;
+    }
+  }
+  if (levels.length !== 1) throw new Error('Unbalanced parentheses');
+  close(levels[0], tokens[tokens.length - 1].end);
+
+  for (const target of targets) {
+    const filter = (ptr: string, predicate: () => string) =>
+      `(${target.qualifier}.id, ${target.qualifier}._txid) IN (SELECT id, _txid FROM ${ptr} WHERE ${predicate()})`;
+    const end = target.end!;
+    if (target.where) {
+      const where = target.where;
+      const condition = tokens[tokens.indexOf(where) + 1];
+      edits.push({
+        start: where.start,
+        end: condition?.start ?? where.end,
+        render: (ptr, p) => `WHERE ${filter(ptr, p)} AND (`,
+      });
+      edits.push({ start: end, end, render: () => ')' });
+    } else {
+      edits.push({ start: end, end, render: (ptr, p) => ` WHERE ${filter(ptr, p)}` });
+    }
+  }
+
+  return {
+    operations: operations.size > 0 ? [...operations] : ['read'],
+    rewrite(ptr, visible) {
+      let predicate: string | undefined;
+      const once = () => (predicate ??= visible());
+      let out = sql;
+      for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+        out = out.slice(0, edit.start) + edit.render(ptr, once) + out.slice(edit.end);
+      }
+      return out;
+    },
+  };
+}
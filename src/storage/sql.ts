@@ -0,0 +1,14 @@
+/**
+ * Shared SQL building helpers for the storage layer.
+ */
+
+/** Collects positional parameters while a statement is assembled. */
+export class SqlParams {
+  /** Starts after `values` already bound by the caller. */
+  constructor(readonly values: unknown[] = []) {}
+
+  add(value: unknown): string {
+    this.values.push(value);
+    return `$${this.values.length}`;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Runtime validation of stored values.
+ *
+ * `generateStorageRegistry` describes each interface as a `TypeShape`;
+ * TableProxy checks values against it before writing.
+ */
+
+import type { ValidationIssue } from '../runtime/http';
+
+export type TypeShape =
+  | { kind: 'any' | 'string' | 'number' | 'boolean' | 'null' }
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'array'; items: TypeShape }
+  | { kind: 'object'; fields: Record<string, FieldShape> }
+  | { kind: 'union'; options: TypeShape[] };
+
+export interface FieldShape {
+  shape: TypeShape;
+  optional?: boolean;
+}
+
+function describe(shape: TypeShape): string {
+  switch (shape.kind) {
+    case 'literal': return JSON.stringify(shape.value);
+    case 'union': return shape.options.map(describe).join(' | ');
+    default: return shape.kind;
+  }
+}
+
+function join(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
+
+/** Every mismatch between `value` and `shape`; empty when it conforms. */
+export function validateShape(shape: TypeShape, value: unknown, path = ''): ValidationIssue[] {
+  switch (shape.kind) {
+    case 'any':
+      return [];
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === shape.kind && !(shape.kind === 'number' && !Number.isFinite(value))
+        ? []
+        : [{ path, message: `expected ${shape.kind}` }];
+    case 'null':
+      return value === null ? [] : [{ path, message: 'expected null' }];
+    case 'literal':
+      return value === shape.value ? [] : [{ path, message: `expected ${describe(shape)}` }];
+    case 'array':
+      if (!Array.isArray(value)) return [{ path, message: 'expected array' }];
+      return value.flatMap((item, i) => validateShape(shape.items, item, `${path}[${i}]`));
+    case 'object': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return [{ path, message: 'expected object' }];
+      }
+      const record = value as Record<string, unknown>;
+      const issues: ValidationIssue[] = [];
+      for (const [field, { shape: fieldShape, optional }] of Object.entries(shape.fields)) {
+        if (record[field] === undefined) {
+          if (!optional) issues.push({ path: join(path, field), message: 'is required' });
+          continue;
+        }
+        issues.push(...validateShape(fieldShape, record[field], join(path, field)));
+      }
+      return issues;
+    }
+    case 'union':
+      return shape.options.some((option) => validateShape(option, value, path).length === 0)
+        ? []
+        : [{ path, message: `expected ${describe(shape)}` }];
+  }
+}
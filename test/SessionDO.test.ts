@@ -1,5 +1,120 @@
-import { describe, it, expect } from 'vitest';
-import { SessionDO } from '../src/runtime/SessionDO';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SessionDO, TXID_HWM_SID, TXID_PIN_PREFIX, TXID_COMMIT_PREFIX, REAPED_OWNER } from '../src/runtime/SessionDO';
+import { ShardedSessionDO, shardFor } from '../src/runtime/ShardedSessionDO';
+import { ConflictError, TimeoutError } from '../src/runtime/http';
+import type { PGClient } from '../src/storage/TableProxy';
+
+/** Minimal in-memory stand-in for the `trxs` table. */
+class TrxsPG implements PGClient {
+  trxs = new Map<string, { owner: string; create_txid: string }>();
+  ptrs: string[] = [];
+  calls: string[] = [];
+  async query(sql: string, params: unknown[] = []): Promise<{ rows: Array<Record<string, unknown>> }> {
+    this.calls.push(sql);
+    if (/FROM storage/.test(sql)) return { rows: this.ptrs.map((ptr) => ({ ptr })) };
+    if (/^(DELETE FROM|UPDATE) tbl_/.test(sql)) return { rows: [] };
+    if (/^WITH hwm AS/.test(sql)) {
+      const [blockSid, size, instance] = params as [string, bigint, string];
+      const hwm = this.trxs.get(TXID_HWM_SID);
+      const end = hwm ? ((BigInt(hwm.create_txid) + size - 1n) / size + 1n) * size : size;
+      const start = String(end - size + 1n);
+      this.trxs.set(TXID_HWM_SID, { owner: '__system', create_txid: String(end) });
+      this.trxs.set(blockSid, { owner: instance, create_txid: start });
+      return { rows: [{ create_txid: start }] };
+    }
+    if (/^WITH block AS/.test(sql)) {
+      const [blockSid, txid, instance, sid, owner] = params as [string, bigint, string, string?, string?];
+      const row = this.trxs.get(blockSid);
+      if (row?.owner !== instance || row.create_txid !== String(txid)) return { rows: [] };
+      if (/^WITH block AS \(UPDATE/.test(sql)) row.create_txid = String(txid + 1n);
+      else this.trxs.delete(blockSid);
+      if (sid) this.trxs.set(sid, { owner: owner!, create_txid: String(txid) });
+      return { rows: [{ sid: blockSid }] };
+    }
+    if (/^WITH mark AS/.test(sql)) {
+      const [sid, pin, mark, txid] = params as [string, string, string, bigint];
+      const row = this.trxs.get(mark);
+      if (!row || BigInt(row.create_txid) < txid) this.trxs.set(mark, { owner: '__system', create_txid: String(txid) });
+      return this.remove('DELETE FROM trxs WHERE sid IN ($1, $2) AND owner <> $3', [sid, pin]);
+    }
+    if (/^INSERT INTO trxs/.test(sql) || /^WITH next AS/.test(sql)) {
+      const hwm = this.trxs.get(TXID_HWM_SID);
+      const next = String(hwm ? BigInt(hwm.create_txid) + 1n : 1n);
+      this.trxs.set(TXID_HWM_SID, { owner: '__system', create_txid: next });
+      if (/^WITH next AS/.test(sql)) {
+        const [sid, owner] = params as [string, string];
+        this.trxs.set(sid, { owner, create_txid: next });
+      }
+      return { rows: [{ create_txid: next }] };
+    }
+    if (/^SELECT sid, owner, create_txid FROM trxs/.test(sql)) {
+      return { rows: Array.from(this.trxs, ([sid, r]) => ({ sid, ...r })) };
+    }
+    if (/^WITH (top|seen) AS/.test(sql)) {
+      // A writer's snapshot (txid, pin, owner) up to the highest commit mark, or a reader's (pin, owner)
+      const reader = params.length === 2;
+      const [txid, pin, owner] = reader ? [undefined, ...params] as [undefined, string, string] : params as [bigint, string, string];
+      const top = reader ? undefined : this.committed().reduce((a, b) => (a > b ? a : b), txid! - 1n);
+      const seen = Array.from(this.trxs)
+        .filter(([sid]) => !sid.startsWith(TXID_COMMIT_PREFIX))
+        .filter(([sid, r]) => reader || (sid !== TXID_HWM_SID && BigInt(r.create_txid) <= top!))
+        .map(([sid, r]) => ({ sid, create_txid: r.create_txid }));
+      const pinned = seen
+        .filter((r) => r.sid !== TXID_HWM_SID && !r.sid.startsWith(TXID_PIN_PREFIX))
+        .map((r) => BigInt(r.create_txid));
+      const hwm = this.trxs.get(TXID_HWM_SID);
+      if (reader) pinned.push(hwm ? BigInt(hwm.create_txid) + 1n : 1n);
+      if (pinned.length > 0) {
+        this.trxs.set(pin, { owner, create_txid: String(pinned.reduce((a, b) => (a < b ? a : b))) });
+      }
+      if (reader) return { rows: seen };
+      return { rows: seen.length > 0 ? seen.map((r) => ({ top: String(top), ...r })) : [{ top: String(top), sid: null }] };
+    }
+    if (/^SELECT MIN\(create_txid\)/.test(sql)) {
+      const txids = Array.from(this.trxs)
+        .filter(([sid]) => sid !== params[0] && !sid.startsWith(params[1] as string))
+        .map(([, r]) => BigInt(r.create_txid));
+      return { rows: [{ txid: txids.length ? String(txids.reduce((a, b) => (a < b ? a : b))) : null }] };
+    }
+    if (/^UPDATE trxs SET owner/.test(sql)) {
+      const row = this.trxs.get(params[0] as string);
+      if (!row || row.owner === REAPED_OWNER) return { rows: [] };
+      row.owner = REAPED_OWNER;
+      return { rows: [{ sid: params[0] }] };
+    }
+    if (/^SELECT sid FROM trxs WHERE sid = \$1 AND owner/.test(sql)) {
+      const held = this.trxs.get(params[0] as string)?.owner === REAPED_OWNER;
+      return { rows: held ? [{ sid: params[0] }] : [] };
+    }
+    if (/^DELETE FROM trxs/.test(sql)) return this.remove(sql, params);
+    throw new Error(`unexpected SQL: ${sql}`);
+  }
+
+  private remove(sql: string, params: unknown[]): { rows: Array<Record<string, unknown>> } {
+    const sids = (/sid IN/.test(sql) ? params.slice(0, 2) : params.slice(0, 1)) as string[];
+    const removed = sids.filter((sid) => {
+      if (/owner <>/.test(sql) && this.trxs.get(sid)?.owner === REAPED_OWNER) return false;
+      if (/owner = \$2/.test(sql) && this.trxs.get(sid)?.owner !== params[1]) return false;
+      return this.trxs.delete(sid);
+    });
+    return { rows: removed.map((sid) => ({ sid })) };
+  }
+
+  /** Commit marks of every instance. */
+  committed(): bigint[] {
+    return Array.from(this.trxs)
+      .filter(([sid]) => sid.startsWith(TXID_COMMIT_PREFIX))
+      .map(([, r]) => BigInt(r.create_txid));
+  }
+}
+
+function sorted(txids: bigint[]): bigint[] {
+  return [...txids].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
 
 describe('SessionDO', () => {
   it('allocates increasing txid', async () => {
@@ -24,4 +139,580 @@ describe('SessionDO', () => {
     await s.allocateTxid();
     expect(s.minActiveTxid).toBeGreaterThan(0n);
   });
+
+  it('snapshots in-flight txids at begin', async () => {
+    const s = new SessionDO();
+    const t1 = await s.beginTransaction('o1');
+    const t2 = await s.beginTransaction('o2');
+    expect(t1.snapshot).toEqual([]);
+    expect(t2.snapshot).toEqual([t1.currentTxid]);
+    await s.commit(t1.sid);
+    const t3 = await s.beginTransaction('o3');
+    expect(t3.snapshot).toEqual([t2.currentTxid]);
+  });
+
+  it('rollback runs undo steps newest-first and ends the transaction', async () => {
+    const s = new SessionDO();
+    const tx = await s.beginTransaction('o1');
+    const order: number[] = [];
+    tx.onRollback(async () => { order.push(1); });
+    tx.onRollback(async () => { order.push(2); });
+    expect(tx.pendingUndo).toBe(2);
+    await s.rollback(tx.sid);
+    expect(order).toEqual([2, 1]);
+    expect(tx.pendingUndo).toBe(0);
+    const next = await s.beginTransaction('o1');
+    expect(next.snapshot).toEqual([]);
+  });
+
+  it('commit discards undo steps and rollback ignores finished sids', async () => {
+    const s = new SessionDO();
+    const tx = await s.beginTransaction('o1');
+    let undone = false;
+    tx.onRollback(async () => { undone = true; });
+    await s.commit(tx.sid);
+    await s.rollback(tx.sid);
+    expect(undone).toBe(false);
+  });
+
+  it('rolls back and rethrows when a snapshot commit conflicts', async () => {
+    const s = new SessionDO();
+    const tx = await s.beginTransaction('o1', { isolation: 'snapshot' });
+    expect(tx.isolation).toBe('snapshot');
+    let undone = false;
+    tx.onRollback(async () => { undone = true; });
+    tx.trackRead('t:1', async () => tx.currentTxid + 1n);
+    await expect(s.commit(tx.sid)).rejects.toBeInstanceOf(ConflictError);
+    expect(undone).toBe(true);
+    expect(s.minActiveTxid).toBe(tx.currentTxid);
+    const next = await s.beginTransaction('o1');
+    expect(next.snapshot).toEqual([]);
+  });
+
+  it('pins the GC horizon at active txids and their snapshots', async () => {
+    const s = new SessionDO();
+    expect(await s.gcHorizon()).toBe(1n);
+    const t1 = await s.beginTransaction('o1');
+    const t2 = await s.beginTransaction('o1');
+    expect(await s.gcHorizon()).toBe(1n);
+    await s.commit(t1.sid);
+    // t2 still cannot see t1's writes
+    expect(await s.gcHorizon()).toBe(1n);
+    await s.commit(t2.sid);
+    expect(await s.gcHorizon()).toBe(3n);
+  });
+
+  describe('with a PGClient', () => {
+    it('registers sessions in trxs and clears them on commit', async () => {
+      const pg = new TrxsPG();
+      const s = new SessionDO(pg);
+      const t1 = await s.beginTransaction('o1');
+      expect(t1.currentTxid).toBe(1n);
+      expect(pg.trxs.get(t1.sid)?.owner).toBe('o1');
+      const t2 = await s.beginTransaction('o2');
+      expect(t2.snapshot).toEqual([1n]);
+      await s.commit(t1.sid);
+      expect(pg.trxs.has(t1.sid)).toBe(false);
+      await s.rollback(t2.sid);
+      expect(pg.trxs.has(t2.sid)).toBe(false);
+      expect(pg.trxs.get(TXID_HWM_SID)?.create_txid).toBe('2');
+    });
+
+    it('resumes from the stored high-water mark after a restart', async () => {
+      const pg = new TrxsPG();
+      const before = new SessionDO(pg);
+      await before.beginTransaction('o1');
+      const committed = await before.beginTransaction('o1');
+      await before.commit(committed.sid);
+
+      const after = new SessionDO(pg);
+      await after.ready();
+      expect(after.minActiveTxid).toBe(1n);
+      const tx = await after.beginTransaction('o2');
+      expect(tx.currentTxid).toBe(3n);
+      expect(tx.snapshot).toEqual([1n]);
+      expect(await after.allocateTxid()).toBe(4n);
+    });
+
+    it('lets sessions of other instances pin the GC horizon', async () => {
+      const pg = new TrxsPG();
+      const s = new SessionDO(pg);
+      await s.ready();
+      const other = new SessionDO(pg);
+      const remote = await other.beginTransaction('o1');
+      const local = await s.beginTransaction('o2');
+      await other.commit(remote.sid);
+      expect(await s.gcHorizon()).toBe(1n);
+      await s.commit(local.sid);
+      expect(await s.gcHorizon()).toBe(3n);
+      await other.beginTransaction('o3');
+      expect(await s.gcHorizon()).toBe(3n);
+    });
+
+    it('lets snapshots and readers of other instances pin the GC horizon', async () => {
+      const pg = new TrxsPG();
+      const s = new SessionDO(pg);
+      await s.ready();
+      const other = new SessionDO(pg);
+      const w = await other.beginTransaction('o1');
+      const t = await other.beginTransaction('o2');
+      const reader = await other.beginTransaction('o3', { readOnly: true });
+      expect(t.snapshot).toEqual([1n]);
+      expect(pg.trxs.get(`${TXID_PIN_PREFIX}${t.sid}`)?.create_txid).toBe('1');
+      await other.commit(w.sid);
+
+      // t cannot see w's writes, so the versions w replaced must stay
+      expect(await s.gcHorizon()).toBe(1n);
+      await other.commit(t.sid);
+      expect(pg.trxs.has(`${TXID_PIN_PREFIX}${t.sid}`)).toBe(false);
+      expect(await s.gcHorizon()).toBe(1n);
+      await other.commit(reader.sid);
+      expect(await other.gcHorizon()).toBe(3n);
+      expect([...pg.trxs.keys()]).toEqual([TXID_HWM_SID, TXID_COMMIT_PREFIX]);
+    });
+
+    it('adopts the pins of readers left behind', async () => {
+      const pg = new TrxsPG();
+      const writer = await new SessionDO(pg).beginTransaction('o1');
+      const reader = await new SessionDO(pg).beginTransaction('o2', { readOnly: true });
+      vi.useFakeTimers();
+      const s = new SessionDO(pg, { maxTxDurationMs: 100 });
+      const active = new Map((await s.listActive()).map((t) => [t.sid, t.readOnly]));
+      expect(active).toEqual(new Map([[writer.sid, false], [reader.sid, true]]));
+      vi.advanceTimersByTime(101);
+      expect((await s.reap()).sort()).toEqual([writer.sid, reader.sid].sort());
+      expect([...pg.trxs.keys()]).toEqual([TXID_HWM_SID, writer.sid]);
+      vi.advanceTimersByTime(101);
+      await s.reap();
+      expect([...pg.trxs.keys()]).toEqual([TXID_HWM_SID]);
+    });
+
+    it('retries recovery after a failed restore', async () => {
+      const pg = new TrxsPG();
+      let fail = true;
+      const flaky: PGClient = {
+        query: async (sql, params) => {
+          if (fail) {
+            fail = false;
+            throw new Error('connection refused');
+          }
+          return pg.query(sql, params);
+        },
+      };
+      const s = new SessionDO(flaky);
+      await expect(s.ready()).rejects.toThrow('connection refused');
+      await expect(s.ready()).resolves.toBeUndefined();
+    });
+  });
+  describe('timeouts', () => {
+    it('lists active transactions with owner and age', async () => {
+      vi.useFakeTimers({ now: 1_000 });
+      const s = new SessionDO();
+      const t1 = await s.beginTransaction('o1');
+      vi.advanceTimersByTime(500);
+      const t2 = await s.beginTransaction('o2', { isolation: 'snapshot' });
+      vi.advanceTimersByTime(250);
+      expect(await s.listActive()).toEqual([
+        { sid: t1.sid, owner: 'o1', txid: 1n, isolation: 'default', readOnly: false, startedAt: 1_000, ageMs: 750 },
+        { sid: t2.sid, owner: 'o2', txid: 2n, isolation: 'snapshot', readOnly: false, startedAt: 1_500, ageMs: 250 },
+      ]);
+    });
+
+    it('refuses to commit a transaction past its max duration', async () => {
+      vi.useFakeTimers();
+      const s = new SessionDO(undefined, { maxTxDurationMs: 100 });
+      const tx = await s.beginTransaction('o1');
+      const undo = vi.fn(async () => {});
+      tx.onRollback(undo);
+      vi.advanceTimersByTime(101);
+      await expect(s.commit(tx.sid)).rejects.toBeInstanceOf(TimeoutError);
+      expect(undo).toHaveBeenCalledTimes(1);
+      expect(await s.listActive()).toEqual([]);
+    });
+
+    it('reaps stale transactions so they stop pinning minActiveTxid', async () => {
+      vi.useFakeTimers();
+      const s = new SessionDO(undefined, { maxTxDurationMs: 100 });
+      const stale = await s.beginTransaction('o1');
+      const undo = vi.fn(async () => {});
+      stale.onRollback(undo);
+      vi.advanceTimersByTime(60);
+      const fresh = await s.beginTransaction('o2');
+      vi.advanceTimersByTime(60);
+      expect(await s.reap()).toEqual([stale.sid]);
+      expect(s.minActiveTxid).toBe(fresh.currentTxid);
+      expect(await s.reap()).toEqual([]);
+
+      // The handler is still running: it may not write any more, a write that
+      // was under way stays hidden and is reverted, and its commit fails
+      expect(undo).not.toHaveBeenCalled();
+      expect(stale.aborted).toBe(true);
+      expect(fresh.aborted).toBe(false);
+      const late = vi.fn(async () => {});
+      stale.onRollback(late);
+      const next = await s.beginTransaction('o3');
+      expect(sorted(next.snapshot)).toEqual([stale.currentTxid, fresh.currentTxid]);
+      expect(await s.gcHorizon()).toBe(stale.currentTxid);
+      await expect(s.commit(stale.sid)).rejects.toThrow(`Transaction ${stale.sid} exceeded 100ms`);
+      expect(undo).toHaveBeenCalledTimes(1);
+      expect(late).toHaveBeenCalledTimes(1);
+      await s.commit(fresh.sid);
+      await s.commit(next.sid);
+      expect(await s.listActive()).toEqual([]);
+      expect((await s.beginTransaction('o1')).snapshot).toEqual([]);
+    });
+
+    it('settles reaped transactions whose handler never finishes', async () => {
+      vi.useFakeTimers();
+      const pg = new TrxsPG();
+      pg.ptrs = ['tbl_a'];
+      const s = new SessionDO(pg, { maxTxDurationMs: 100 });
+      const stale = await s.beginTransaction('o1');
+      vi.advanceTimersByTime(101);
+      expect(await s.reap()).toEqual([stale.sid]);
+      expect(pg.trxs.get(stale.sid)?.owner).toBe(REAPED_OWNER);
+      const late = vi.fn(async () => {});
+      stale.onRollback(late);
+      const other = await s.beginTransaction('o2');
+      expect(other.snapshot).toEqual([stale.currentTxid]);
+      await s.commit(other.sid);
+
+      // The handler may still be writing, so the txid is reverted, not its undo log
+      vi.advanceTimersByTime(101);
+      expect(await s.reap()).toEqual([]);
+      expect(late).not.toHaveBeenCalled();
+      expect(pg.calls.filter((sql) => sql === 'DELETE FROM tbl_a WHERE _txid = $1')).toHaveLength(2);
+      expect(pg.trxs.has(stale.sid)).toBe(false);
+      expect((await s.beginTransaction('o3')).snapshot).toEqual([]);
+    });
+
+    it('reverts a write that lands after the reaper once the handler finishes', async () => {
+      vi.useFakeTimers();
+      const pg = new TrxsPG();
+      pg.ptrs = ['tbl_a'];
+      const s = new SessionDO(pg, { maxTxDurationMs: 100 });
+      const stale = await s.beginTransaction('o1');
+      const reverts = () => pg.calls.filter((sql) => sql === 'DELETE FROM tbl_a WHERE _txid = $1').length;
+      // TableProxy logs the undo step, then its INSERT is still in flight
+      const undo = vi.fn(async () => {});
+      stale.onRollback(undo);
+      vi.advanceTimersByTime(101);
+      expect(await s.reap()).toEqual([stale.sid]);
+      expect(reverts()).toBe(1);
+      expect(undo).not.toHaveBeenCalled();
+
+      // The INSERT lands; the txid is still hidden until the handler gives up
+      expect(pg.trxs.get(stale.sid)?.owner).toBe(REAPED_OWNER);
+      expect((await s.beginTransaction('o2')).snapshot).toEqual([stale.currentTxid]);
+      await expect(s.commit(stale.sid)).rejects.toBeInstanceOf(TimeoutError);
+      expect(reverts()).toBe(2);
+      expect(pg.calls.indexOf("SELECT sid FROM trxs WHERE sid = $1 AND owner = '__reaped'"))
+        .toBeLessThan(pg.calls.lastIndexOf('DELETE FROM tbl_a WHERE _txid = $1'));
+      expect(pg.trxs.has(stale.sid)).toBe(false);
+    });
+
+    it('runs the reaper on a timer until stopped', async () => {
+      vi.useFakeTimers();
+      const errors: unknown[] = [];
+      const flaky: PGClient = { query: async () => { throw new Error('db down'); } };
+      const s = new SessionDO(flaky, { onReapError: (err) => errors.push(err) });
+      s.startReaper(1000);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(errors.map((e) => (e as Error).message)).toEqual(['db down']);
+      s.stopReaper();
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(errors.length).toBe(1);
+
+      const local = new SessionDO(undefined, { maxTxDurationMs: 100 });
+      const tx = await local.beginTransaction('o1');
+      local.startReaper(50);
+      await vi.advanceTimersByTimeAsync(150);
+      expect(await local.listActive()).toEqual([]);
+      await expect(local.commit(tx.sid)).rejects.toBeInstanceOf(TimeoutError);
+      local.stopReaper();
+    });
+
+    it('reverts sessions left behind by another instance by txid', async () => {
+      const pg = new TrxsPG();
+      pg.ptrs = ['tbl_a', 'tbl_b'];
+      await new SessionDO(pg).beginTransaction('o1');
+      vi.useFakeTimers();
+      const s = new SessionDO(pg, { maxTxDurationMs: 100 });
+      const [orphan] = await s.listActive();
+      expect(orphan).toMatchObject({ owner: 'o1', txid: 1n, ageMs: 0 });
+      vi.advanceTimersByTime(101);
+      expect(await s.reap()).toEqual([orphan.sid]);
+      expect(pg.calls).toEqual(expect.arrayContaining([
+        'DELETE FROM tbl_a WHERE _txid = $1',
+        'UPDATE tbl_a SET _deleted_txid = NULL WHERE _deleted_txid = $1',
+        'DELETE FROM tbl_b WHERE _txid = $1',
+      ]));
+      // Its instance may still be writing: the txid stays hidden a while longer
+      expect(pg.trxs.get(orphan.sid)?.owner).toBe(REAPED_OWNER);
+      expect(await s.gcHorizon()).toBe(1n);
+      vi.advanceTimersByTime(101);
+      expect(await s.reap()).toEqual([]);
+      expect(pg.trxs.has(orphan.sid)).toBe(false);
+      expect(await s.gcHorizon()).toBe(2n);
+    });
+  });
+  describe('read-only transactions', () => {
+    it('read at the high-water mark without allocating or hiding anything', async () => {
+      const s = new SessionDO();
+      const writer = await s.beginTransaction('o1');
+      const reader = await s.beginTransaction('o2', { readOnly: true });
+      expect(reader.readOnly).toBe(true);
+      expect(reader.currentTxid).toBe(1n);
+      expect(reader.snapshot).toEqual([1n]);
+      const next = await s.beginTransaction('o3');
+      expect(next.currentTxid).toBe(2n);
+      expect(next.snapshot).toEqual([1n]);
+      expect((await s.listActive()).map((t) => [t.txid, t.readOnly])).toEqual([[1n, false], [1n, true], [2n, false]]);
+
+      await s.commit(writer.sid);
+      await s.commit(next.sid);
+      expect(await s.gcHorizon()).toBe(1n);
+      await s.commit(reader.sid);
+      expect(await s.gcHorizon()).toBe(3n);
+      expect(s.minActiveTxid).toBe(2n);
+    });
+
+    it('read the hwm and in-flight sessions of every instance from trxs', async () => {
+      const pg = new TrxsPG();
+      const shard = new SessionDO(pg, { shard: 'a', blockSize: 4 });
+      const writer = await shard.beginTransaction('o1');
+      const s = new SessionDO(pg);
+      const calls = pg.calls.length;
+      const reader = await s.beginTransaction('o2', { readOnly: true });
+      expect(reader.currentTxid).toBe(4n);
+      expect(sorted(reader.snapshot)).toEqual([1n, 2n, 3n, 4n]);
+      expect(pg.calls.slice(calls)).toEqual(['SELECT sid, owner, create_txid FROM trxs', expect.stringMatching(/^WITH seen AS/)]);
+      expect(pg.trxs.get(`${TXID_PIN_PREFIX}${reader.sid}`)).toEqual({ owner: 'o2', create_txid: '1' });
+      await s.rollback(reader.sid);
+      expect(pg.trxs.has(`${TXID_PIN_PREFIX}${reader.sid}`)).toBe(false);
+      expect(pg.trxs.size).toBe(3);
+      await shard.commit(writer.sid);
+
+      const empty = await new SessionDO(new TrxsPG()).beginTransaction('o', { readOnly: true });
+      expect(empty.currentTxid).toBe(0n);
+    });
+
+    it('time out like other transactions', async () => {
+      vi.useFakeTimers();
+      const s = new SessionDO(undefined, { maxTxDurationMs: 100 });
+      const stale = await s.beginTransaction('o1', { readOnly: true });
+      const late = await s.beginTransaction('o1', { readOnly: true });
+      vi.advanceTimersByTime(101);
+      await expect(s.commit(stale.sid)).rejects.toBeInstanceOf(TimeoutError);
+      expect(await s.reap()).toEqual([late.sid]);
+      await expect(s.commit(late.sid)).rejects.toBeInstanceOf(TimeoutError);
+      expect(await s.listActive()).toEqual([]);
+    });
+  });
+
+  describe('recovered sessions', () => {
+    it('leaves a recovered session alone once its instance committed it', async () => {
+      const pg = new TrxsPG();
+      pg.ptrs = ['tbl_a'];
+      const owner = new SessionDO(pg);
+      const tx = await owner.beginTransaction('o1');
+      vi.useFakeTimers();
+      const other = new SessionDO(pg, { maxTxDurationMs: 100 });
+      await other.ready();
+      await owner.commit(tx.sid);
+      vi.advanceTimersByTime(101);
+      expect(await other.reap()).toEqual([tx.sid]);
+      expect(pg.calls.some((sql) => sql.startsWith('DELETE FROM tbl_a'))).toBe(false);
+    });
+
+    it('fails the commit of a session another instance reaped', async () => {
+      const pg = new TrxsPG();
+      const owner = new SessionDO(pg);
+      const tx = await owner.beginTransaction('o1');
+      const undo = vi.fn(async () => {});
+      tx.onRollback(undo);
+      vi.useFakeTimers();
+      const other = new SessionDO(pg, { maxTxDurationMs: 100 });
+      await other.ready();
+      vi.advanceTimersByTime(101);
+      await other.reap();
+      await expect(owner.commit(tx.sid)).rejects.toThrow(`Transaction ${tx.sid} was reaped`);
+      expect(undo).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('txid blocks', () => {
+    it('allocates from a block per shard and hides the unissued rest of other blocks', async () => {
+      const pg = new TrxsPG();
+      const a = new SessionDO(pg, { shard: 'a', blockSize: 4 });
+      const b = new SessionDO(pg, { shard: 'b', blockSize: 4 });
+      const a1 = await a.beginTransaction('o1');
+      const b1 = await b.beginTransaction('o2');
+      expect([a1.currentTxid, b1.currentTxid]).toEqual([1n, 5n]);
+      expect(sorted(b1.snapshot)).toEqual([1n, 2n, 3n, 4n]);
+      await a.commit(a1.sid);
+      const a2 = await a.beginTransaction('o1');
+      expect(a2.currentTxid).toBe(2n);
+      expect(a2.snapshot).toEqual([]);
+      const b2 = await b.beginTransaction('o2');
+      expect(sorted(b2.snapshot)).toEqual([2n, 3n, 4n, 5n]);
+      expect(pg.trxs.get('__block_a')?.create_txid).toBe('3');
+      expect(pg.trxs.get(TXID_HWM_SID)?.create_txid).toBe('8');
+      expect(await b.gcHorizon()).toBe(1n);
+    });
+
+    it('sees commits another shard made above its txid and keeps its block', async () => {
+      const pg = new TrxsPG();
+      const a = new SessionDO(pg, { shard: 'a', blockSize: 4 });
+      const b = new SessionDO(pg, { shard: 'b', blockSize: 4 });
+      const a1 = await a.beginTransaction('o1');
+      const b1 = await b.beginTransaction('o2');
+      await b.commit(b1.sid);
+      expect(pg.trxs.get(`${TXID_COMMIT_PREFIX}b`)?.create_txid).toBe('5');
+
+      // a2 ranks below b1 although b1 finished first, so it sees up to 5
+      const a2 = await a.beginTransaction('o1');
+      expect(a2.currentTxid).toBe(2n);
+      expect(a2.upperTxid).toBe(5n);
+      expect(sorted(a2.snapshot)).toEqual([1n, 3n, 4n]);
+      expect(a2.sees(5n)).toBe(true);
+      expect(a2.sees(3n)).toBe(false);
+      expect(pg.trxs.get('__block_a')?.create_txid).toBe('3');
+      // A version at 5 would stay on top of a2's
+      expect(() => a2.trackWrite('tbl:k', 5n)).toThrow(ConflictError);
+      a2.trackWrite('tbl:k', null);
+
+      await a.commit(a1.sid);
+      const b2 = await b.beginTransaction('o2');
+      expect(b2.currentTxid).toBe(6n);
+      expect(b2.upperTxid).toBe(5n);
+      expect(sorted(b2.snapshot)).toEqual([2n, 3n, 4n]);
+      expect(pg.calls.filter((sql) => sql.startsWith('WITH hwm AS')).length).toBe(2);
+    });
+
+    it('reserves one block per shard however the shards interleave commits', async () => {
+      const pg = new TrxsPG();
+      const shards = [0, 1, 2, 3].map((i) => new SessionDO(pg, { shard: `s${i}` }));
+      await Promise.all(shards.map((s) => s.ready()));
+      const calls = pg.calls.length;
+      let last = 0n;
+      for (let i = 0; i < 40; i++) {
+        const shard = shards[i % 4];
+        const tx = await shard.beginTransaction('o');
+        expect(tx.sees(last) || last === 0n).toBe(true);
+        await shard.commit(tx.sid);
+        last = tx.currentTxid;
+      }
+      expect(pg.calls.filter((sql) => sql.startsWith('WITH hwm AS')).length).toBe(4);
+      expect(last).toBe(3n * 64n + 10n);
+      // A reservation per shard, then a begin takes two statements and a commit one
+      expect(pg.calls.length - calls).toBe(4 + 40 * 3);
+    });
+
+    it('reserves one block for concurrent begins and drops the row with its last txid', async () => {
+      const pg = new TrxsPG();
+      const a = new SessionDO(pg, { shard: 'a', blockSize: 3 });
+      const txs = await Promise.all([1, 2, 3].map(() => a.beginTransaction('o1')));
+      expect(txs.map((tx) => tx.currentTxid).sort()).toEqual([1n, 2n, 3n]);
+      expect(pg.calls.filter((sql) => sql.startsWith('WITH hwm AS')).length).toBe(1);
+      expect(pg.trxs.has('__block_a')).toBe(false);
+      expect(await a.allocateTxid()).toBe(4n);
+      expect(pg.trxs.get('__block_a')?.create_txid).toBe('5');
+    });
+
+    it('gives up the previous block after a restart and releases its own when idle', async () => {
+      const pg = new TrxsPG();
+      const before = new SessionDO(pg, { shard: 'a', blockSize: 4 });
+      await before.commit((await before.beginTransaction('o1')).sid);
+      vi.useFakeTimers();
+      const after = new SessionDO(pg, { shard: 'a', blockSize: 4, maxTxDurationMs: 100 });
+      await after.ready();
+      expect(pg.trxs.has('__block_a')).toBe(false);
+      const tx = await after.beginTransaction('o1');
+      expect(tx.currentTxid).toBe(5n);
+      await after.commit(tx.sid);
+      expect(await after.gcHorizon()).toBe(6n);
+      await after.reap();
+      expect(pg.trxs.has('__block_a')).toBe(true);
+      vi.advanceTimersByTime(101);
+      await after.reap();
+      expect(pg.trxs.has('__block_a')).toBe(false);
+      expect((await after.beginTransaction('o1')).currentTxid).toBe(9n);
+    });
+
+    it('never issues a txid twice when two instances share a shard id', async () => {
+      const pg = new TrxsPG();
+      const x = new SessionDO(pg, { shard: 'a', blockSize: 4 });
+      const x1 = await x.beginTransaction('o1');
+      const y = new SessionDO(pg, { shard: 'a', blockSize: 4 });
+      const y1 = await y.beginTransaction('o2');
+      const x2 = await x.beginTransaction('o1');
+      const y2 = await y.beginTransaction('o2');
+      const txids = [x1, y1, x2, y2].map((tx) => tx.currentTxid);
+      expect(txids).toEqual([1n, 5n, 9n, 13n]);
+      expect(pg.calls.filter((sql) => sql.startsWith('WITH hwm AS')).length).toBe(4);
+      expect(pg.trxs.get('__block_a')?.create_txid).toBe('14');
+      // x lost the block holding 10-12 and will never issue them
+      expect(sorted(y2.snapshot)).toEqual([1n, 5n, 9n]);
+      await x.releaseBlock();
+      expect(pg.trxs.has('__block_a')).toBe(true);
+    });
+
+    it('rejects invalid block options', () => {
+      const pg = new TrxsPG();
+      expect(() => new SessionDO(pg, { shard: 'a', blockSize: 0 })).toThrow('Txid block size must be a positive integer');
+      expect(() => new SessionDO(undefined, { shard: 'a' })).toThrow('Txid blocks need a PGClient');
+      expect(() => new SessionDO(pg, { shard: "a'b" })).toThrow("Invalid shard id: a'b");
+    });
+  });
+
+  describe('ShardedSessionDO', () => {
+    it('routes every owner to a fixed shard', () => {
+      expect(shardFor('acme', 4)).toBe(shardFor('acme', 4));
+      const spread = new Set(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map((o) => shardFor(o, 4)));
+      expect(spread.size).toBeGreaterThan(1);
+      expect([...spread].every((i) => i >= 0 && i < 4)).toBe(true);
+      const sessions = new ShardedSessionDO(new TrxsPG(), { shards: 3 });
+      expect(sessions.shardFor('acme')).toBe(sessions.shards[shardFor('acme', 3)]);
+      expect(() => new ShardedSessionDO(new TrxsPG(), { shards: 0 })).toThrow('Shard count must be a positive integer');
+    });
+
+    it('runs transactions on their owner\'s shard', async () => {
+      const pg = new TrxsPG();
+      const sessions = new ShardedSessionDO(pg, { shards: 2, blockSize: 4, prefix: 'p1_' });
+      await sessions.ready();
+      const owners = ['o1', 'o2', 'o3', 'o4', 'o5', 'o6'];
+      const a = owners.find((o) => shardFor(o, 2) === 0)!;
+      const b = owners.find((o) => shardFor(o, 2) === 1)!;
+      const ta = await sessions.beginTransaction(a);
+      const tb = await sessions.beginTransaction(b, { isolation: 'snapshot' });
+      expect(pg.trxs.has('__block_p1_0')).toBe(true);
+      expect(pg.trxs.has('__block_p1_1')).toBe(true);
+      expect((await sessions.listActive()).map((t) => t.owner)).toEqual([a, b]);
+      expect(sessions.minActiveTxid).toBe(ta.currentTxid);
+      expect(await sessions.gcHorizon()).toBe(1n);
+
+      const undo = vi.fn(async () => {});
+      tb.onRollback(undo);
+      await sessions.rollback(tb.sid);
+      expect(undo).toHaveBeenCalledTimes(1);
+      await sessions.commit(ta.sid);
+      await sessions.commit(ta.sid);
+      await sessions.rollback('unknown');
+      expect(await sessions.listActive()).toEqual([]);
+      expect(await sessions.reap()).toEqual([]);
+    });
+
+    it('reaps stale transactions on every shard', async () => {
+      vi.useFakeTimers();
+      const sessions = new ShardedSessionDO(new TrxsPG(), { shards: 2, maxTxDurationMs: 100 });
+      const tx = await sessions.beginTransaction('o1');
+      sessions.startReaper(50);
+      await vi.advanceTimersByTimeAsync(150);
+      sessions.stopReaper();
+      expect(await sessions.listActive()).toEqual([]);
+      await expect(sessions.commit(tx.sid)).rejects.toBeInstanceOf(TimeoutError);
+      await sessions.commit(tx.sid);
+    });
+  });
 });
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { createStorage, TableDirectory } from '../src/storage/Storage';
+import { TableProxy, type PGClient } from '../src/storage/TableProxy';
+import { ValidationError } from '../src/runtime/http';
+
+declare module '../src/storage/Storage' {
+  interface StorageRegistry {
+    users: { id: string; name?: string };
+  }
+}
+
+class MockPG implements PGClient {
+  calls: { sql: string; params?: unknown[] }[] = [];
+  rows: Array<Record<string, unknown>> = [];
+  async query(sql: string, params?: unknown[]) {
+    this.calls.push({ sql, params });
+    if (/FROM storage/.test(sql)) return { rows: [{ ptr: `tbl_${params?.[0]}`, permissions: 0b111 }] };
+    return { rows: this.rows };
+  }
+}
+
+const ctx = { sid: 's', owner: 'o', currentTxid: 10n, perm: 0b111 };
+
+const metadata = {
+  primaryKeys: { order: 'id', customer: 'id' },
+  fieldPerms: { order: {}, customer: { card: 0 } },
+  shapes: { customer: { kind: 'object' as const, fields: { id: { shape: { kind: 'string' as const } } } } },
+  relations: { order: { customerId: 'customer' }, customer: {} },
+};
+
+describe('Storage', () => {
+  it('creates one proxy per table on first access', () => {
+    const storage = createStorage(new MockPG(), ctx);
+    const users = storage.get('users');
+    expect(users).toBeInstanceOf(TableProxy);
+    expect(storage.get('users')).toBe(users);
+    expect(storage.users).toBe(users);
+    expect(storage.get('posts')).not.toBe(users);
+    expect(storage).toBeInstanceOf(TableDirectory);
+  });
+
+  it('does not look like a promise', async () => {
+    const storage = createStorage(new MockPG(), ctx);
+    expect((storage as unknown as Record<string, unknown>).then).toBeUndefined();
+    await expect(Promise.resolve(storage)).resolves.toBe(storage);
+  });
+
+  it('routes every other property name to a table', () => {
+    const storage = createStorage(new MockPG(), ctx) as unknown as Record<string, unknown>;
+    for (const key of ['tables', 'metadata', 'pg', 'ctx', 'baseOptions', 'constructor']) {
+      expect(storage[key]).toBeInstanceOf(TableProxy);
+      expect(storage[key]).toBe((storage as unknown as TableDirectory).get(key));
+    }
+    expect(typeof (storage as unknown as TableDirectory).options('tables')).toBe('object');
+  });
+
+  it('queries the table of the request owner', async () => {
+    const pg = new MockPG();
+    pg.rows = [{ data: { id: '1' } }];
+    const storage = createStorage(pg, { ...ctx, owner: 'alice' });
+    expect(await storage.get('users').get('1')).toEqual({ id: '1' });
+    expect(pg.calls[0].params).toEqual(['users', 'alice']);
+  });
+
+  it('builds table options from registry metadata', () => {
+    const storage = createStorage(new MockPG(), ctx, { ...metadata, ownerScoped: false });
+    expect(storage.options('customer')).toEqual({
+      primaryKey: 'id',
+      fieldPerms: { card: 0 },
+      shape: metadata.shapes.customer,
+    });
+    expect(storage.options('order')).toEqual({
+      primaryKey: 'id',
+      relations: {
+        customerId: {
+          table: 'customer',
+          options: { primaryKey: 'id', fieldPerms: { card: 0 }, shape: metadata.shapes.customer },
+        },
+      },
+    });
+    expect(storage.options('unknown')).toEqual({});
+  });
+
+  it('marks every table owner-scoped unless the metadata opts out', () => {
+    for (const storage of [createStorage(new MockPG(), ctx), createStorage(new MockPG(), ctx, { ...metadata, ownerScoped: true })]) {
+      expect(storage.options('unknown')).toEqual({ ownerScoped: true });
+    }
+    const storage = createStorage(new MockPG(), ctx, metadata);
+    const relations = storage.options('order').relations as Record<string, { options?: { ownerScoped?: boolean } }>;
+    expect(relations.customerId.options?.ownerScoped).toBe(true);
+  });
+
+  it('applies the metadata to its proxies', async () => {
+    const pg = new MockPG();
+    const storage = createStorage(pg, ctx, metadata);
+    await expect(storage.get('customer').insert({ id: 1 })).rejects.toThrow(ValidationError);
+    pg.rows = [{ id: '1', data: { id: '1', customerId: 'c' }, _order: 1, j0: { id: 'c', card: 'x' } }];
+    const orders = await storage.get<Record<string, unknown>>('order').include('customerId', 'customer').all();
+    expect(orders).toEqual([{ id: '1', customerId: 'c', customer: { id: 'c' } }]);
+  });
+});
@@ -1,17 +1,20 @@
 import { describe, it, expect } from 'vitest';
-import { TableProxy, PGClient } from '../src/storage/TableProxy';
+import { TableProxy, PGClient, type Context } from '../src/storage/TableProxy';
+import { Transaction } from '../src/runtime/transaction';
+import { ConflictError, ForbiddenError, PermissionError, TimeoutError, ValidationError } from '../src/runtime/http';
 type AnyRec = Record<string, unknown>;
 
 class MockPG implements PGClient {
   calls: { sql: string; params?: unknown[] }[] = [];
   storage: Record<string, string> = {};
+  permissions: Record<string, number> = {};
   rows: Array<Record<string, unknown>> = [];
   async query(sql: string, params?: unknown[]) {
     this.calls.push({ sql, params });
-    if (/SELECT ptr FROM storage/.test(sql)) {
+    if (/SELECT ptr, permissions FROM storage/.test(sql)) {
       const [name, owner] = params as [string, string];
       const ptr = this.storage[`${name}:${owner}`];
-      return { rows: ptr ? [{ ptr }] : [] };
+      return { rows: ptr ? [{ ptr, permissions: this.permissions[`${name}:${owner}`] }] : [] };
     }
     return { rows: this.rows };
   }
@@ -26,7 +29,7 @@ describe('TableProxy', () => {
     const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
     await proxy.getPtr();
     await proxy.getPtr();
-    const selects = pg.calls.filter(c => /SELECT ptr FROM storage/.test(c.sql));
+    const selects = pg.calls.filter(c => /SELECT ptr, permissions FROM storage/.test(c.sql));
     expect(selects.length).toBe(1);
   });
 
@@ -38,30 +41,127 @@ describe('TableProxy', () => {
     const u = await proxy.get('1');
     expect(u?.id).toBe('1');
     const last = pg.calls[pg.calls.length - 1];
-    expect(last.sql.includes('AND _txid < $2')).toBe(true);
+    expect(last.sql.includes('_txid < $2')).toBe(true);
+    expect(last.sql.includes('_txid <> ALL($3::bigint[])')).toBe(true);
+    expect(last.params).toEqual(['1', 10n, []]);
   });
 
-  it('push and pop honor _order', async () => {
+  it('hides in-flight txids and shows own writes', async () => {
     const pg = new MockPG();
-    pg.storage['tasks:o'] = 'tbl_tasks';
-    const proxy = new TableProxy<AnyRec>(pg, 'tasks', ctx);
-    await proxy.push({ title: 't' });
-    const popRows = [{ data: { title: 't' } }];
-    pg.rows = popRows;
-    const val = await proxy.pop();
-    expect(val?.title).toBe('t');
-    const popCall = pg.calls.find(c => /DELETE FROM tbl_tasks/.test(c.sql) && c.sql.includes('MAX(_order)'));
-    expect(!!popCall).toBe(true);
+    pg.storage['users:o'] = 'tbl_users_abc';
+    const proxy = new TableProxy<AnyRec>(pg, 'users', { ...ctx, snapshot: [7n, 8n] });
+    await proxy.get('1');
+    const last = pg.calls[pg.calls.length - 1];
+    expect(last.sql.includes('OR _txid = $2')).toBe(true);
+    expect(last.sql.includes('NOT (_deleted_txid < $2')).toBe(true);
+    expect(last.params?.[2]).toEqual([7n, 8n]);
+  });
+
+  it('sees up to upperTxid when another shard committed above our txid', async () => {
+    const pg = new MockPG();
+    pg.storage['users:o'] = 'tbl_users_abc';
+    const proxy = new TableProxy<AnyRec>(pg, 'users', { ...ctx, snapshot: [12n], upperTxid: 14n });
+    await proxy.get('1');
+    const last = pg.calls[pg.calls.length - 1];
+    expect(last.sql).toContain('(_txid <= $3 AND _txid <> ALL($4::bigint[]) OR _txid = $2)');
+    expect(last.params).toEqual(['1', 10n, 14n, [12n]]);
+    await new TableProxy<AnyRec>(pg, 'users', { ...ctx, upperTxid: 9n }).get('1');
+    expect(pg.calls[pg.calls.length - 1].params).toEqual(['1', 10n, []]);
   });
-  it('shift removes first item', async () => {
+
+  it('reads the latest visible version', async () => {
     const pg = new MockPG();
-    pg.storage['tasks:o'] = 'tbl_tasks';
-    const proxy = new TableProxy<AnyRec>(pg, 'tasks', ctx);
-    pg.rows = [{ data: { title: 'first' } }];
-    const val = await proxy.shift();
-    expect(val?.title).toBe('first');
-    const shiftCall = pg.calls.find(c => /DELETE FROM tbl_tasks/.test(c.sql) && c.sql.includes('MIN(_order)'));
-    expect(!!shiftCall).toBe(true);
+    pg.storage['users:o'] = 'tbl_users_abc';
+    const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
+    await proxy.get('1');
+    const last = pg.calls[pg.calls.length - 1];
+    expect(last.sql).toContain('NOT EXISTS');
+    expect(last.sql).toContain('newer._txid > tbl_users_abc._txid');
+  });
+
+  it('set appends a version instead of overwriting', async () => {
+    const pg = new MockPG();
+    pg.storage['users:o'] = 'tbl_users_abc';
+    const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
+    await proxy.set('1', { name: 'A' });
+    const last = pg.calls[pg.calls.length - 1];
+    expect(last.sql).toContain('INSERT INTO tbl_users_abc');
+    expect(last.sql).toContain('ON CONFLICT (id, _txid) DO UPDATE');
+    expect(last.params).toEqual(['1', '{"name":"A"}', 10n, 'o']);
+  });
+
+  describe('lists', () => {
+    function setup(rows: Array<Record<string, unknown>> = []) {
+      const pg = new MockPG();
+      pg.storage['tasks:o'] = 'tbl_tasks';
+      pg.rows = rows;
+      return { pg, proxy: new TableProxy<AnyRec>(pg, 'tasks', ctx) };
+    }
+
+    it('push takes _order from the table sequence', async () => {
+      const { pg, proxy } = setup();
+      const id = await proxy.push({ title: 't' });
+      const last = pg.calls[pg.calls.length - 1];
+      expect(last.sql).toContain("nextval(pg_get_serial_sequence('tbl_tasks', '_order'))");
+      expect(last.sql).not.toContain('MAX(_order)');
+      expect(last.params).toEqual([id, '{"title":"t"}', 10n, 'o']);
+    });
+
+    it('pop soft-deletes the last unclaimed visible item', async () => {
+      const { pg, proxy } = setup([{ id: 't1', data: { title: 't' }, stamp: null }]);
+      expect(await proxy.pop()).toEqual({ title: 't' });
+      const last = pg.calls[pg.calls.length - 1];
+      expect(last.sql).toContain('UPDATE tbl_tasks AS target SET _deleted_txid = $3');
+      expect(last.sql).toContain('AND _deleted_txid IS NULL');
+      expect(last.sql).toContain('ORDER BY _order DESC, id DESC');
+      expect(last.sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(last.sql).toContain('WHERE id = target.id AND _txid <> $3');
+      expect(last.sql).not.toContain('DELETE');
+      expect(last.params).toEqual([10n, [], 10n]);
+    });
+
+    it('shift takes the first item and returns null on an empty list', async () => {
+      const { pg, proxy } = setup();
+      expect(await proxy.shift()).toBeNull();
+      expect(pg.calls[pg.calls.length - 1].sql).toContain('ORDER BY _order ASC, id ASC');
+    });
+
+    it('insertAt shifts earlier items down and takes the slot below the target', async () => {
+      const { pg, proxy } = setup();
+      const id = await proxy.insertAt(2, { title: 'x' });
+      const last = pg.calls[pg.calls.length - 1];
+      expect(last.sql).toContain('LIMIT 1 OFFSET $3');
+      expect(last.sql).toContain('SELECT _order, id FROM tbl_tasks');
+      expect(last.sql).toContain('UPDATE tbl_tasks SET _order = _order - 2\n         WHERE (_order, id) < (SELECT _order, id FROM target)');
+      expect(last.sql).toContain("COALESCE((SELECT _order - 1 FROM target), nextval(pg_get_serial_sequence('tbl_tasks', '_order')))");
+      expect(last.params).toEqual([10n, [], 2, id, '{"title":"x"}', 10n, 'o']);
+      await expect(proxy.insertAt(-1, {})).rejects.toThrow('Invalid list index -1');
+      await expect(proxy.insertAt(1.5, {})).rejects.toThrow('Invalid list index 1.5');
+    });
+
+    it('slice pages through the list in order', async () => {
+      const { pg, proxy } = setup([{ id: 'a', data: { n: 1 }, _order: 1 }]);
+      expect(await proxy.slice(1, 3)).toEqual([{ n: 1 }]);
+      let last = pg.calls[pg.calls.length - 1];
+      expect(last.sql).toContain('ORDER BY _order, id LIMIT $3 OFFSET $4');
+      expect(last.params?.slice(2)).toEqual([2, 1]);
+      await proxy.slice(2);
+      last = pg.calls[pg.calls.length - 1];
+      expect(last.params?.slice(2)).toEqual([500, 2]);
+      expect(await proxy.slice(3, 1)).toEqual([]);
+    });
+
+    it('slice resolves negative indices against length', async () => {
+      const { pg, proxy } = setup([{ count: '5' }]);
+      expect(await proxy.length()).toBe(5);
+      expect(pg.calls[pg.calls.length - 1].sql).toContain('SELECT COUNT(*)');
+      await proxy.slice(-2);
+      expect(pg.calls[pg.calls.length - 1].params?.slice(2)).toEqual([500, 3]);
+      await proxy.slice(0, -1);
+      expect(pg.calls[pg.calls.length - 1].params?.slice(2)).toEqual([4, 0]);
+      await proxy.slice(-9, -4);
+      expect(pg.calls[pg.calls.length - 1].params?.slice(2)).toEqual([1, 0]);
+    });
   });
 
   it('update merges partial fields and calls set', async () => {
@@ -112,7 +212,7 @@ describe('TableProxy', () => {
       out.push(u);
     }
     expect(out.length).toBe(2);
-    const q = pg.calls.find(c => /SELECT data FROM tbl_users_abc/.test(c.sql) && c.sql.includes('data @>'));
+    const q = pg.calls.find(c => /FROM tbl_users_abc/.test(c.sql) && c.sql.includes("data->'name' = $"));
     expect(!!q).toBe(true);
   });
 
@@ -133,6 +233,37 @@ describe('TableProxy', () => {
     await expect(proxy.exec('SELECT * FROM users JOIN other ON users.id=other.id', [])).rejects.toThrow();
   });
 
+  it('exec reads visible rows with visibility params after the caller params', async () => {
+    const pg = new MockPG();
+    pg.storage['users:o'] = 'tbl_users_abc';
+    const proxy = new TableProxy<AnyRec>(pg, 'users', { ...ctx, snapshot: [7n] });
+    await proxy.exec('SELECT data FROM users WHERE id = $1', ['1']);
+    const last = pg.calls[pg.calls.length - 1];
+    expect(last.sql).toContain('FROM (SELECT * FROM tbl_users_abc WHERE (_txid < $2 AND _txid <> ALL($3::bigint[]) OR _txid = $2)');
+    expect(last.sql).toContain(') AS users WHERE id = $1');
+    expect(last.params).toEqual(['1', 10n, [7n]]);
+    await proxy.exec('SELECT 1');
+    expect(pg.calls[pg.calls.length - 1]).toEqual({ sql: 'SELECT 1', params: [] });
+    await expect(proxy.exec('SELECT 1; SELECT 2')).rejects.toThrow('Only one statement may be executed');
+  });
+
+  it('exec rejects statements that would edit or remove versions in place', async () => {
+    const pg = new MockPG();
+    pg.storage['users:o'] = 'tbl_users_abc';
+    const proxy = new TableProxy<AnyRec>(pg, 'users', { ...ctx, tx: new Transaction('s', 'o', 10n) });
+    for (const sql of [
+      'DELETE FROM users WHERE id = $1',
+      "UPDATE users SET data = '{\"v\":99}' WHERE id = $1",
+      "INSERT INTO users (id, data) VALUES ($1, '{}')",
+      'WITH gone AS (DELETE FROM users WHERE id = $1 RETURNING id) SELECT * FROM gone',
+    ]) {
+      const err = await proxy.exec(sql, ['a']).catch(e => e);
+      expect(err).toBeInstanceOf(ForbiddenError);
+      expect(err.message).toBe('exec cannot write to users: use set, update or delete');
+    }
+    expect(pg.calls).toEqual([]);
+  });
+
   it('getPtr throws when table not found', async () => {
     const pg = new MockPG();
     const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
@@ -145,4 +276,658 @@ describe('TableProxy', () => {
     const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
     await expect(proxy.getPtr()).rejects.toThrow();
   });
+
+  describe('table permissions', () => {
+    function proxyWith(permissions: number) {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.permissions['users:o'] = permissions;
+      return { pg, proxy: new TableProxy<AnyRec>(pg, 'users', ctx, { primaryKey: 'id' }) };
+    }
+
+    it('read-only tables reject writes and deletes with ForbiddenError', async () => {
+      const { pg, proxy } = proxyWith(0b100);
+      await proxy.get('1');
+      await proxy.find().count();
+      await proxy.exec('SELECT * FROM users');
+      for (const write of [
+        () => proxy.set('1', {}),
+        () => proxy.update('1', {}),
+        () => proxy.push({}),
+        () => proxy.insert({ id: '1' }),
+      ]) {
+        const err = await write().catch(e => e);
+        expect(err).toBeInstanceOf(ForbiddenError);
+        expect(err.message).toBe('Cannot write users');
+        expect(err.status).toBe(403);
+      }
+      await expect(proxy.delete('1')).rejects.toThrow('Cannot delete users');
+      await expect(proxy.pop()).rejects.toThrow('Cannot delete users');
+      await expect(proxy.shift()).rejects.toThrow('Cannot delete users');
+      expect(pg.calls.some(c => /INSERT|UPDATE|DELETE FROM/.test(c.sql))).toBe(false);
+    });
+
+    it('write-only tables reject reads but still allow update', async () => {
+      const { proxy } = proxyWith(0b010);
+      await expect(proxy.get('1')).rejects.toThrow('Cannot read users');
+      await expect(proxy.find().all()).rejects.toThrow('Cannot read users');
+      await expect(proxy.query({}).next()).rejects.toThrow('Cannot read users');
+      await expect(proxy.history('1').next()).rejects.toThrow('Cannot read users');
+      await expect(proxy.exec('SELECT * FROM users')).rejects.toThrow('Cannot read users');
+      await expect(proxy.exec('WITH x AS (SELECT 1) SELECT * FROM users')).rejects.toThrow(ForbiddenError);
+      await expect(proxy.update('1', { name: 'B' })).resolves.toBeUndefined();
+    });
+
+    it('treats a missing permissions value as full access', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
+      await expect(proxy.exec('SELECT * FROM users')).resolves.toBeDefined();
+    });
+  });
+
+  describe('field permissions', () => {
+    const fieldPerms = { email: 0b100, secret: 0b010 };
+
+    function setup(rows: Array<Record<string, unknown>>) {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = rows;
+      return { pg, proxy: new TableProxy<AnyRec>(pg, 'users', ctx, { fieldPerms }) };
+    }
+
+    it('strips write-only fields from reads', async () => {
+      const row = { id: '1', _order: 1, _txid: '3', _deleted_txid: null, data: { name: 'A', email: 'e', secret: 's' } };
+      const { proxy } = setup([row]);
+      expect(await proxy.get('1')).toEqual({ name: 'A', email: 'e' });
+      expect(await proxy.find().all()).toEqual([{ name: 'A', email: 'e' }]);
+      expect((await proxy.find().page({ limit: 5 })).items).toEqual([{ name: 'A', email: 'e' }]);
+      expect((await proxy.history('1').next()).value?.data).toEqual({ name: 'A', email: 'e' });
+      expect(await proxy.pop()).toEqual({ name: 'A', email: 'e' });
+    });
+
+    it('rejects changing read-only fields of an existing record', async () => {
+      const { pg, proxy } = setup([{ data: { name: 'A', email: 'e' } }]);
+      const err = await proxy.update('1', { email: 'x' }).catch(e => e);
+      expect(err).toBeInstanceOf(PermissionError);
+      expect(err.message).toBe("Field 'email' is read-only");
+      await expect(proxy.set('1', { name: 'B' })).rejects.toThrow("Field 'email' is read-only");
+      expect(pg.calls.some(c => c.sql.includes('INSERT INTO'))).toBe(false);
+    });
+
+    it('allows writable changes and unchanged read-only fields', async () => {
+      const { pg, proxy } = setup([{ data: { name: 'A', email: 'e' } }]);
+      await proxy.update('1', { name: 'B', secret: 'new' });
+      await proxy.set('1', { name: 'C', email: 'e' });
+      const inserts = pg.calls.filter(c => c.sql.includes('INSERT INTO tbl_users_abc'));
+      expect(inserts.map(c => JSON.parse(c.params?.[1] as string))).toEqual([
+        { name: 'B', email: 'e', secret: 'new' },
+        { name: 'C', email: 'e' },
+      ]);
+    });
+
+    it('lets new records initialize read-only fields', async () => {
+      const { pg, proxy } = setup([]);
+      await proxy.set('1', { email: 'e' });
+      await proxy.update('2', { email: 'f' });
+      await proxy.push({ email: 'g' });
+      expect(pg.calls.filter(c => c.sql.includes('INSERT INTO tbl_users_abc')).length).toBe(3);
+    });
+  });
+
+  describe('bulk operations', () => {
+    function setup(rows: Array<Record<string, unknown>> = [], c: Context = ctx) {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = rows;
+      return { pg, proxy: new TableProxy<AnyRec>(pg, 'users', c, { fieldPerms: { role: 0b100 } }) };
+    }
+    const writes = (pg: MockPG) => pg.calls.filter(c => /^INSERT INTO|^UPDATE tbl_users_abc SET _deleted_txid =/.test(c.sql));
+
+    it('getMany reads each chunk with one statement and keeps input order', async () => {
+      const { pg, proxy } = setup([{ id: 'b', data: { n: 2 } }, { id: 'a', data: { n: 1 } }]);
+      expect(await proxy.getMany(['a', 'x', 'b', 'a'], { chunkSize: 2 })).toEqual([{ n: 1 }, null, { n: 2 }, { n: 1 }]);
+      const reads = pg.calls.filter(c => c.sql.includes('id = ANY($1::text[])'));
+      expect(reads.map(r => r.params)).toEqual([[['a', 'x'], 10n, []], [['b'], 10n, []]]);
+      expect(reads[0].sql).toContain('NOT EXISTS');
+    });
+
+    it('setMany writes a multi-row insert per chunk with txid and owner', async () => {
+      const { pg, proxy } = setup();
+      await proxy.setMany([['1', { n: 1 }], ['2', { n: 2 }], ['1', { n: 3 }]], { chunkSize: 1 });
+      const inserts = writes(pg);
+      expect(inserts.map(i => i.params)).toEqual([
+        [['1'], ['{"n":3}'], 10n, 'o'],
+        [['2'], ['{"n":2}'], 10n, 'o'],
+      ]);
+      expect(inserts[0].sql).toContain('FROM unnest($1::text[], $2::text[]) AS v(id, data)');
+      expect(inserts[0].sql).toContain('ON CONFLICT (id, _txid) DO UPDATE');
+      await proxy.setMany(new Map([['3', { n: 3 }]]));
+      expect(writes(pg)[2].params?.[0]).toEqual(['3']);
+    });
+
+    it('setMany checks every record before writing any', async () => {
+      const { pg, proxy } = setup([{ id: '2', data: { role: 'user' } }]);
+      await expect(proxy.setMany([['1', { role: 'admin' }], ['2', { role: 'admin' }]], { chunkSize: 1 }))
+        .rejects.toBeInstanceOf(PermissionError);
+      expect(writes(pg)).toEqual([]);
+      await expect(proxy.setMany([], { chunkSize: 0 })).rejects.toThrow('chunk size must be a positive integer');
+    });
+
+    it('deleteMany marks visible versions and counts them', async () => {
+      const { pg, proxy } = setup([{ id: 'a' }, { id: 'b' }]);
+      expect(await proxy.deleteMany(['a', 'b', 'a'])).toBe(2);
+      const last = pg.calls[pg.calls.length - 1];
+      expect(last.sql).toContain('UPDATE tbl_users_abc SET _deleted_txid = $1');
+      expect(last.sql).toContain('WHERE id = ANY($2::text[])');
+      expect(last.params).toEqual([10n, ['a', 'b'], 10n, []]);
+    });
+
+    it('journals whole chunks and rolls them back', async () => {
+      const tx = new Transaction('s', 'o', 10n, [], 'snapshot');
+      const { pg, proxy } = setup([], { ...ctx, tx });
+      pg.rows = [
+        { id: '1', stamp: null, data: null, _deleted_txid: null },
+        { id: '2', stamp: '12', data: { n: 0 }, _deleted_txid: null },
+      ];
+      await proxy.setMany([['1', { n: 1 }], ['2', { n: 2 }]]);
+      const probe = pg.calls.find(c => c.sql.includes('FROM unnest($1::text[]) AS ids(id)'));
+      expect(probe?.params).toEqual([['1', '2'], 10n]);
+      await expect(tx.validate()).rejects.toThrow('Write conflict on tbl_users_abc:2');
+      await proxy.deleteMany(['1']);
+      pg.calls = [];
+      await tx.revert();
+      expect(pg.calls.map(c => [c.sql.replace(/\s+/g, ' '), c.params])).toEqual([
+        ['UPDATE tbl_users_abc SET _deleted_txid = NULL WHERE id = ANY($1::text[]) AND _deleted_txid = $2', [['1'], 10n]],
+        ['DELETE FROM tbl_users_abc WHERE id = ANY($1::text[]) AND _txid = $2', [['1'], 10n]],
+        ['DELETE FROM tbl_users_abc WHERE id = ANY($1::text[]) AND _txid = $2', [['1'], 10n]],
+        ['UPDATE tbl_users_abc SET data = $3, _deleted_txid = $4 WHERE id = $1 AND _txid = $2', ['2', 10n, '{"n":0}', null]],
+      ]);
+    });
+  });
+
+  describe('validation', () => {
+    const shape = {
+      kind: 'object' as const,
+      fields: {
+        id: { shape: { kind: 'string' as const } },
+        age: { shape: { kind: 'number' as const } },
+      },
+    };
+
+    function setup(rows: Array<Record<string, unknown>> = []) {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = rows;
+      return { pg, proxy: new TableProxy<AnyRec>(pg, 'users', ctx, { shape, primaryKey: 'id' }) };
+    }
+
+    it('rejects invalid values before writing', async () => {
+      const { pg, proxy } = setup();
+      const err = await proxy.set('1', { id: '1', age: 'old' }).catch(e => e);
+      expect(err).toBeInstanceOf(ValidationError);
+      expect(err.code).toBe('INVALID_REQUEST');
+      expect(err.message).toBe('Invalid users record');
+      expect(err.issues).toEqual([{ path: 'age', message: 'expected number' }]);
+      await expect(proxy.push({ age: 1 })).rejects.toThrow(ValidationError);
+      await expect(proxy.insert({ id: '1' })).rejects.toThrow(ValidationError);
+      await expect(proxy.upsert({ id: '1', age: null })).rejects.toThrow(ValidationError);
+      expect(pg.calls.length).toBe(0);
+    });
+
+    it('validates the merged record on update', async () => {
+      const { pg, proxy } = setup([{ data: { id: '1', age: 3 } }]);
+      await proxy.update('1', { age: 4 });
+      await expect(proxy.update('1', { age: 'x' })).rejects.toThrow(ValidationError);
+      pg.rows = [];
+      const err = await proxy.update('2', { age: 1 }).catch(e => e);
+      expect(err.issues).toEqual([{ path: 'id', message: 'is required' }]);
+    });
+  });
+
+  describe('relations', () => {
+    function setup(perms = 0b111) {
+      const pg = new MockPG();
+      pg.storage['orders:o'] = 'tbl_orders_abc';
+      pg.storage['customers:o'] = 'tbl_customers_def';
+      pg.permissions['customers:o'] = perms;
+      const proxy = new TableProxy<AnyRec>(pg, 'orders', ctx, {
+        fieldPerms: { secret: 0 },
+        relations: {
+          customerId: { table: 'customers', options: { fieldPerms: { card: 0 } } },
+          parentId: { table: 'orders' },
+        },
+      });
+      return { pg, proxy };
+    }
+
+    it('joins the related record of the same owner in one statement', async () => {
+      const { pg, proxy } = setup();
+      pg.rows = [
+        { id: '1', data: { id: '1', customerId: 'c1', secret: 'x' }, _order: 1, j0: { id: 'c1', card: '4242' } },
+        { id: '2', data: { id: '2', customerId: 'gone' }, _order: 2, j0: null },
+      ];
+      const orders = await proxy.include('customerId', 'customer').all();
+      expect(orders).toEqual([
+        { id: '1', customerId: 'c1', customer: { id: 'c1' } },
+        { id: '2', customerId: 'gone', customer: null },
+      ]);
+      const lookups = pg.calls.filter(c => /FROM storage/.test(c.sql)).map(c => c.params);
+      expect(lookups).toEqual([['orders', 'o'], ['customers', 'o']]);
+      const last = pg.calls[pg.calls.length - 1];
+      expect(last.sql).toContain('(SELECT rel.data FROM tbl_customers_def rel');
+      expect(last.sql).toContain('WHERE rel.id = tbl_orders_abc.data #>> $3::text[]');
+      expect(last.sql).toContain('WHERE newer.id = rel.id AND newer._txid > rel._txid');
+      expect(last.sql).toContain(' AS j0 FROM tbl_orders_abc');
+      expect(last.params?.[2]).toEqual(['customerId']);
+    });
+
+    it('supports self references and chained includes', async () => {
+      const { pg, proxy } = setup();
+      pg.rows = [{ id: '2', data: { id: '2' }, _order: 1, j0: { id: '1' }, j1: null }];
+      const [order] = await proxy.find().include('parentId', 'parent').include('customerId', 'customer').all();
+      expect(order).toEqual({ id: '2', parent: { id: '1' }, customer: null });
+      const last = pg.calls[pg.calls.length - 1];
+      expect(last.sql).toContain('(SELECT rel.data FROM tbl_orders_abc rel');
+      expect(last.sql).toContain(' AS j1 FROM tbl_orders_abc');
+    });
+
+    it('requires read permission on the related table', async () => {
+      const { proxy } = setup(0b011);
+      await expect(proxy.include('customerId', 'customer').all()).rejects.toThrow(ForbiddenError);
+    });
+
+    it('rejects undeclared relations and unreadable fields', () => {
+      const { proxy } = setup();
+      expect(() => proxy.include('name', 'n')).toThrow('No relation declared on orders.name');
+      expect(() => proxy.include('secret', 's')).toThrow("Cannot read field 'secret'");
+    });
+
+    it('reads the related table as of the same txid', async () => {
+      const { pg, proxy } = setup();
+      await proxy.asOf(5n).include('customerId', 'customer').all();
+      const last = pg.calls[pg.calls.length - 1];
+      expect(last.params?.filter(v => v === 5n).length).toBe(2);
+    });
+  });
+
+  describe('owner scoping', () => {
+    function setup(c: Context = ctx) {
+      const pg = new MockPG();
+      pg.storage['notes:o'] = 'tbl_notes_abc';
+      pg.storage['notes:root'] = 'tbl_notes_abc';
+      return { pg, proxy: new TableProxy<AnyRec>(pg, 'notes', c, { ownerScoped: true }) };
+    }
+    const last = (pg: MockPG) => pg.calls[pg.calls.length - 1];
+
+    it('reads only the owner\'s rows, superseded only by its own versions', async () => {
+      const { pg, proxy } = setup();
+      await proxy.get('1');
+      expect(last(pg).sql).toContain('OR _txid = $2) AND _owner = $4');
+      expect(last(pg).sql).toContain('newer._txid > tbl_notes_abc._txid AND newer._owner = tbl_notes_abc._owner');
+      expect(last(pg).params).toEqual(['1', 10n, [], 'o']);
+      await proxy.find().where('n', 'gt', 1).all();
+      expect(last(pg).params).toContain('o');
+      await proxy.history('1').next();
+      expect(last(pg).sql).toContain('AND _owner = $4');
+    });
+
+    it('leaves tables without the option unfiltered', async () => {
+      const pg = new MockPG();
+      pg.storage['notes:o'] = 'tbl_notes_abc';
+      await new TableProxy<AnyRec>(pg, 'notes', ctx).get('1');
+      expect(last(pg).sql).not.toContain('_owner');
+    });
+
+    it('scopes conflict stamps and list positions to the owner', async () => {
+      const tx = new Transaction('s', 'o', 10n, [], 'snapshot');
+      const { pg, proxy } = setup({ ...ctx, tx });
+      await proxy.set('1', { n: 1 });
+      const probe = pg.calls.find(c => c.sql.includes('AS probe'));
+      expect(probe?.sql).toContain('AND _txid <> $2 AND _owner = $3)');
+      expect(probe?.params).toEqual(['1', 10n, 'o']);
+      expect(last(pg).sql).toContain('WHERE id = $1 AND _owner = $5 ORDER BY _txid DESC');
+      await proxy.setMany([['2', { n: 2 }]]);
+      expect(pg.calls.some(c => c.sql.includes('unnest($1::text[]) AS ids(id)') && c.params?.[2] === 'o')).toBe(true);
+      expect(last(pg).sql).toContain('WHERE id = v.id AND _owner = $');
+      await proxy.insertAt(0, { n: 0 });
+      expect(last(pg).sql).toMatch(/WHERE \(_order, id\) < \(SELECT _order, id FROM target\) AND _owner = \$\d+/);
+      pg.rows = [{ id: '3', data: {}, stamp: null }];
+      await proxy.pop();
+      const pop = last(pg);
+      expect(pop.sql).toMatch(/AND _txid <> \$\d+ AND _owner = \$(\d+)\) AS stamp/);
+      expect(pop.params?.filter(v => v === 'o').length).toBe(2);
+      pg.rows = [];
+      await proxy.get('9');
+      await expect(tx.validate()).resolves.toBeUndefined();
+      const tracked = pg.calls.filter(c => /^SELECT \(SELECT MAX/.test(c.sql));
+      expect(tracked.every(c => c.params?.[2] === 'o')).toBe(true);
+    });
+
+    it('rejects exec writes but scopes exec reads', async () => {
+      const { pg, proxy } = setup();
+      await expect(proxy.exec("UPDATE notes SET _owner = 'x'")).rejects.toThrow('exec cannot write to notes');
+      await expect(proxy.exec("INSERT INTO notes (id) VALUES ('1')")).rejects.toThrow(ForbiddenError);
+      await proxy.exec('SELECT count(*) FROM notes');
+      expect(last(pg).sql).toContain('AND _owner = $3');
+      expect(last(pg).params).toEqual([10n, [], 'o']);
+    });
+
+    it('lets admins read across owners through a read-only view', async () => {
+      const { proxy } = setup();
+      expect(() => proxy.unscoped()).toThrow('Unscoped access to notes requires the admin group');
+      const admin = setup({ ...ctx, owner: 'root', ugroups: ['admin'] });
+      const all = admin.proxy.unscoped();
+      await all.find().all();
+      const sql = last(admin.pg).sql;
+      expect(sql).not.toContain('_owner = $');
+      expect(sql).toContain('newer._owner = tbl_notes_abc._owner');
+      await expect(all.set('1', {})).rejects.toThrow('Table notes is a read-only unscoped view');
+      await expect(all.exec('SELECT id FROM notes')).rejects.toThrow('read-only unscoped view');
+      await expect(all.asOf(5n).delete('1')).rejects.toThrow('read-only asOf(5) view');
+      await all.asOf(5n).get('1');
+      expect(last(admin.pg).sql).not.toContain('_owner = $');
+    });
+
+    it('pairs included records with the row\'s owner in an unscoped view', async () => {
+      const pg = new MockPG();
+      pg.storage['notes:root'] = 'tbl_notes_abc';
+      pg.storage['tags:root'] = 'tbl_tags_def';
+      const notes = new TableProxy<AnyRec>(pg, 'notes', { ...ctx, owner: 'root', ugroups: ['admin'] }, {
+        ownerScoped: true,
+        relations: { tagId: { table: 'tags', options: { ownerScoped: true } } },
+      });
+      await notes.unscoped().include('tagId', 'tag').all();
+      const sql = last(pg).sql;
+      expect(sql).toContain('WHERE rel.id = tbl_notes_abc.data #>> $3::text[] AND rel._owner = tbl_notes_abc._owner');
+      expect(sql).not.toContain('_owner = $');
+    });
+  });
+
+  describe('primary keys', () => {
+    it('insert derives the id and only writes when no visible record exists', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [{ id: 'a@x' }];
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx, { primaryKey: 'email' });
+      expect(await proxy.insert({ email: 'a@x', name: 'A' })).toBe('a@x');
+      const { sql, params } = pg.calls[pg.calls.length - 1];
+      expect(sql).toContain('WHERE NOT EXISTS (SELECT 1 FROM tbl_users_abc WHERE id = $1 AND');
+      expect(sql).toContain('RETURNING id');
+      expect(params?.slice(0, 4)).toEqual(['a@x', '{"email":"a@x","name":"A"}', 10n, 'o']);
+    });
+
+    it('insert throws ConflictError when the record exists', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx, { primaryKey: 'email' });
+      const err = await proxy.insert({ email: 'a@x' }).catch(e => e);
+      expect(err).toBeInstanceOf(ConflictError);
+      expect(err.message).toBe('Record a@x already exists in users');
+    });
+
+    it('upsert writes a version under the primary key', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx, { primaryKey: 'id' });
+      expect(await proxy.upsert({ id: 7, name: 'B' })).toBe('7');
+      const { sql, params } = pg.calls[pg.calls.length - 1];
+      expect(sql).not.toContain('NOT EXISTS (SELECT 1');
+      expect(params?.[0]).toBe('7');
+    });
+
+    it('rejects values without a primary key', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      await expect(new TableProxy<AnyRec>(pg, 'users', ctx).upsert({ id: '1' }))
+        .rejects.toThrow('Table users has no primary key');
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx, { primaryKey: 'id' });
+      const missing = await proxy.insert({ name: 'x' }).catch(e => e);
+      expect(missing).toBeInstanceOf(ValidationError);
+      expect(missing.message).toBe("Missing primary key field 'id' for users");
+      expect(missing.status).toBe(400);
+      expect(missing.issues).toEqual([{ path: 'id', message: 'is required' }]);
+      await expect(proxy.upsert({ id: '' })).rejects.toThrow(ValidationError);
+      await expect(proxy.asOf(1n).insert({ id: '1' })).rejects.toThrow('read-only');
+    });
+  });
+
+  describe('asOf and history', () => {
+    it('asOf reads versions up to a past txid', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [{ data: { name: 'A' } }];
+      const proxy = new TableProxy<AnyRec>(pg, 'users', { ...ctx, snapshot: [7n] });
+      const past = proxy.asOf(6n);
+      expect((await past.get('1'))?.name).toBe('A');
+      const last = pg.calls[pg.calls.length - 1];
+      expect(last.sql).toContain('_txid <= $2 AND _txid <> ALL($3::bigint[])');
+      expect(last.sql).not.toContain('OR _txid =');
+      expect(last.params).toEqual(['1', 6n, [7n]]);
+    });
+
+    it('asOf views reuse the resolved ptr and reject writes', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
+      await proxy.getPtr();
+      const past = proxy.asOf(3n);
+      await past.getPtr();
+      expect(pg.calls.filter(c => /SELECT ptr, permissions FROM storage/.test(c.sql)).length).toBe(1);
+      await expect(past.set('1', {})).rejects.toThrow('read-only asOf(3) view');
+      await expect(past.set('1', {})).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(past.update('1', {})).rejects.toThrow('read-only');
+      await expect(past.delete('1')).rejects.toThrow('read-only');
+      await expect(past.push({})).rejects.toThrow('read-only');
+      await expect(past.pop()).rejects.toThrow('read-only');
+      await expect(past.shift()).rejects.toThrow('read-only');
+      await expect(past.exec('SELECT 1')).rejects.toThrow('read-only');
+    });
+
+    it('read-only transactions read up to their txid and reject writes', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [{ data: { name: 'A' } }];
+      const proxy = new TableProxy<AnyRec>(pg, 'users', { ...ctx, snapshot: [10n], readOnly: true });
+      expect((await proxy.get('1'))?.name).toBe('A');
+      const last = pg.calls[pg.calls.length - 1];
+      expect(last.sql).toContain('_txid <= $2 AND _txid <> ALL($3::bigint[])');
+      expect(last.sql).not.toContain('OR _txid =');
+      expect(last.params).toEqual(['1', 10n, [10n]]);
+      await proxy.exec('SELECT * FROM users WHERE id = $1', ['1']);
+      await expect(proxy.set('1', {})).rejects.toThrow('Table users cannot be written in a read-only transaction');
+      await expect(proxy.set('1', {})).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(proxy.delete('1')).rejects.toThrow('read-only transaction');
+      await expect(proxy.pop()).rejects.toThrow('read-only transaction');
+      await expect(proxy.exec('UPDATE users SET data = $1', [{}])).rejects.toThrow('read-only transaction');
+    });
+
+    it('rejects writes of an aborted transaction', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      const tx = new Transaction('s', 'o', 10n);
+      const proxy = new TableProxy<AnyRec>(pg, 'users', { ...ctx, tx });
+      tx.abort();
+      await proxy.get('1');
+      await expect(proxy.set('1', {})).rejects.toThrow(TimeoutError);
+      await expect(proxy.delete('1')).rejects.toThrow('Transaction s was aborted');
+      await expect(proxy.exec('DELETE FROM users')).rejects.toThrow(TimeoutError);
+      expect(pg.calls.some((c) => /INSERT|DELETE/.test(c.sql))).toBe(false);
+    });
+
+    it('asOf rejects txids at or after the current transaction', () => {
+      const proxy = new TableProxy<AnyRec>(new MockPG(), 'users', ctx);
+      expect(() => proxy.asOf(10n)).toThrow('must precede');
+    });
+
+    it('history lists visible versions oldest first', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [
+        { data: { name: 'A' }, _txid: '3', _deleted_txid: null },
+        { data: { name: 'B' }, _txid: '5', _deleted_txid: '8' },
+      ];
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
+      const out = [];
+      for await (const v of proxy.history('1')) out.push(v);
+      expect(out).toEqual([
+        { data: { name: 'A' }, _txid: 3n, _deleted_txid: null },
+        { data: { name: 'B' }, _txid: 5n, _deleted_txid: 8n },
+      ]);
+      const last = pg.calls[pg.calls.length - 1];
+      expect(last.sql).toContain('ORDER BY _txid');
+      expect(last.sql).toContain('CASE WHEN (_deleted_txid < $1');
+      expect(last.params).toEqual([10n, [], '1']);
+    });
+  });
+
+  describe('with a transaction', () => {
+    function txCtx() {
+      const tx = new Transaction('s', 'o', 10n, []);
+      return { tx, ctx: { ...ctx, tx } };
+    }
+
+    it('rollback deletes a version this transaction created', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [{ stamp: null, data: null, _deleted_txid: null }];
+      const { tx, ctx: c } = txCtx();
+      const proxy = new TableProxy<AnyRec>(pg, 'users', c);
+      await proxy.set('1', { name: 'B' });
+      const id = await proxy.push({ name: 'C' });
+      expect(tx.pendingUndo).toBe(2);
+      await tx.revert();
+      const deletes = pg.calls.filter(call => /DELETE FROM tbl_users_abc WHERE id = \$1 AND _txid = \$2/.test(call.sql));
+      expect(deletes.map(d => d.params)).toEqual([[id, 10n], ['1', 10n]]);
+    });
+
+    it('rollback restores our own version as it was before the write', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [{ stamp: '5', data: { name: 'A' }, _deleted_txid: null }];
+      const { tx, ctx: c } = txCtx();
+      const proxy = new TableProxy<AnyRec>(pg, 'users', c);
+      await proxy.set('1', { name: 'B' });
+      await tx.revert();
+      const restore = pg.calls[pg.calls.length - 1];
+      expect(restore.sql).toContain('UPDATE tbl_users_abc SET data = $3, _deleted_txid = $4');
+      expect(restore.params).toEqual(['1', 10n, '{"name":"A"}', null]);
+    });
+
+    it('rolls back to a savepoint without touching earlier writes', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [{ stamp: null, data: null, _deleted_txid: null }];
+      const { tx, ctx: c } = txCtx();
+      const proxy = new TableProxy<AnyRec>(pg, 'users', c);
+      await proxy.set('1', { name: 'A' });
+      const sp = tx.savepoint();
+      await proxy.set('2', { name: 'B' });
+      await tx.rollbackTo(sp);
+      const deletes = pg.calls.filter(call => /DELETE FROM tbl_users_abc WHERE id = \$1 AND _txid = \$2/.test(call.sql));
+      expect(deletes.map(d => d.params)).toEqual([['2', 10n]]);
+      expect(tx.pendingUndo).toBe(1);
+    });
+
+    it('rollback clears deletion marks', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [{ id: '1' }];
+      const { tx, ctx: c } = txCtx();
+      const proxy = new TableProxy<AnyRec>(pg, 'users', c);
+      await proxy.delete('1');
+      await tx.revert();
+      const clear = pg.calls.find(call => call.sql.includes('SET _deleted_txid = NULL WHERE id = $1 AND _deleted_txid = $2'));
+      expect(clear?.params).toEqual(['1', 10n]);
+    });
+
+    it('rollback returns popped items and removes inserted ones', async () => {
+      const pg = new MockPG();
+      pg.storage['tasks:o'] = 'tbl_tasks';
+      pg.rows = [{ id: 't1', data: { title: 'new' }, stamp: null }];
+      const { tx, ctx: c } = txCtx();
+      const proxy = new TableProxy<AnyRec>(pg, 'tasks', c);
+      expect((await proxy.pop())?.title).toBe('new');
+      const id = await proxy.insertAt(0, { title: 'x' });
+      await tx.revert();
+      const [remove, clear] = pg.calls.slice(-2);
+      expect(remove.sql).toBe('DELETE FROM tbl_tasks WHERE id = $1 AND _txid = $2');
+      expect(remove.params).toEqual([id, 10n]);
+      expect(clear.sql).toContain('SET _deleted_txid = NULL WHERE id = $1 AND _deleted_txid = $2');
+      expect(clear.params).toEqual(['t1', 10n]);
+    });
+
+    it('flags popping an item another transaction changed', async () => {
+      const pg = new MockPG();
+      pg.storage['tasks:o'] = 'tbl_tasks';
+      pg.rows = [{ id: 't1', data: {}, stamp: '12' }];
+      const tx = new Transaction('s', 'o', 10n, [], 'snapshot');
+      const proxy = new TableProxy<AnyRec>(pg, 'tasks', { ...ctx, tx });
+      await proxy.shift();
+      await expect(tx.validate()).rejects.toThrow('Write conflict on tbl_tasks:t1');
+    });
+
+    it('tracks reads and validates the current write stamp', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [{ data: { name: 'A' }, stamp: '5' }];
+      const tx = new Transaction('s', 'o', 10n, [], 'snapshot');
+      const proxy = new TableProxy<AnyRec>(pg, 'users', { ...ctx, tx });
+      await proxy.get('1');
+      await expect(tx.validate()).resolves.toBeUndefined();
+      pg.rows = [{ stamp: '11' }];
+      await expect(tx.validate()).rejects.toThrow('Write conflict on tbl_users_abc:1');
+      const check = pg.calls[pg.calls.length - 1];
+      expect(check.sql).toContain('CASE WHEN NOT EXISTS (SELECT 1 FROM trxs WHERE trxs.create_txid = _txid');
+      expect(check.sql).toContain('CASE WHEN _deleted_txid <> $2 AND NOT EXISTS');
+    });
+
+    it('lets the first of two concurrent updates commit and fails the second', async () => {
+      // Versions of record '1' and the txids still registered in trxs
+      class VersionPG extends MockPG {
+        versions: bigint[] = [5n];
+        live = new Set<bigint>();
+        async query(sql: string, params?: unknown[]) {
+          if (!sql.includes('AS stamp')) {
+            if (sql.startsWith('INSERT INTO tbl_users_abc')) this.versions.push(params![2] as bigint);
+            return super.query(sql, params);
+          }
+          this.calls.push({ sql, params });
+          const own = params![1] as bigint;
+          const committed = this.versions.filter(t => t !== own && !(sql.includes('FROM trxs') && this.live.has(t)));
+          const stamp = committed.length > 0 ? String(committed.reduce((a, b) => (a > b ? a : b))) : null;
+          return { rows: [{ stamp, data: null, _deleted_txid: null }] };
+        }
+      }
+      const pg = new VersionPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [{ data: { v: 0 } }];
+      const a = new Transaction('a', 'o', 10n, [], 'snapshot');
+      const b = new Transaction('b', 'o', 11n, [10n], 'snapshot');
+      pg.live = new Set([10n, 11n]);
+      await new TableProxy<AnyRec>(pg, 'users', { ...ctx, tx: a }).update('1', { v: 1 });
+      await new TableProxy<AnyRec>(pg, 'users', { ...ctx, currentTxid: 11n, tx: b }).update('1', { v: 2 });
+      await expect(a.validate()).resolves.toBeUndefined();
+      pg.live.delete(10n);
+      await expect(b.validate()).rejects.toThrow(ConflictError);
+    });
+
+    it('flags overwriting a record another transaction changed', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      pg.rows = [{ stamp: '12', data: null, _deleted_txid: null }];
+      const tx = new Transaction('s', 'o', 10n, [], 'snapshot');
+      const proxy = new TableProxy<AnyRec>(pg, 'users', { ...ctx, tx });
+      await proxy.set('1', { name: 'B' });
+      await expect(tx.validate()).rejects.toThrow('Write conflict');
+    });
+
+    it('does not journal without a transaction', async () => {
+      const pg = new MockPG();
+      pg.storage['users:o'] = 'tbl_users_abc';
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
+      await proxy.set('1', { name: 'B' });
+      expect(pg.calls.some(c => c.sql.includes('AS stamp'))).toBe(false);
+    });
+  });
 });
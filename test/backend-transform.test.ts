@@ -28,6 +28,21 @@ describe('@backend transform', () => {
     expect(route.meta.version).toBe(1);
   });
 
+  it('resolves perms constants', () => {
+    const src = `
+      class Service {
+        @backend({ perm: perms.R__ })
+        async list() { return []; }
+        @backend({ perm: perms.nope })
+        async odd() { return []; }
+        @backend({ perm: other.R__ })
+        async other() { return []; }
+      }
+    `;
+    const res = transformBackend(src);
+    expect(res.routes.map(r => r.meta.perm)).toEqual([0b100, null, null]);
+  });
+
   it('ignores non-decorated functions and handles anonymous class', () => {
     const src = `
       export default class {
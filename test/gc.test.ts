@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { collectGarbage, GcScheduler, gcHorizonSQL, generateGcFunction, generateGcScript } from '../src/runtime/gc';
+import { SessionDO } from '../src/runtime/SessionDO';
+import type { PGClient } from '../src/storage/TableProxy';
+
+/** Serves `storage` ptrs and pops a queued row count for each cleanup batch. */
+class GcPG implements PGClient {
+  calls: { sql: string; params?: unknown[] }[] = [];
+  constructor(public ptrs: string[], public batches: Record<string, number[]> = {}) {}
+  async query(sql: string, params?: unknown[]) {
+    this.calls.push({ sql, params });
+    if (/FROM storage/.test(sql)) return { rows: this.ptrs.map((ptr) => ({ ptr })) };
+    const ptr = /DELETE FROM (\w+)/.exec(sql)![1];
+    const n = this.batches[ptr]?.shift() ?? 0;
+    return { rows: Array.from({ length: n }, () => ({ '?column?': 1 })) };
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('collectGarbage', () => {
+  it('deletes in batches per ptr table and reports stats', async () => {
+    const pg = new GcPG(['tbl_a', 'tbl_b'], { tbl_a: [2, 2, 1], tbl_b: [] });
+    const report = await collectGarbage(pg, 7n, { batchSize: 2 });
+    expect(report.horizon).toBe(7n);
+    expect(report.removed).toBe(5);
+    expect(report.tables.map(({ ptr, removed }) => ({ ptr, removed }))).toEqual([
+      { ptr: 'tbl_a', removed: 5 },
+      { ptr: 'tbl_b', removed: 0 },
+    ]);
+    expect(report.tables.every((t) => t.durationMs >= 0)).toBe(true);
+    const deletes = pg.calls.filter((c) => c.sql.startsWith('WITH latest'));
+    expect(deletes.length).toBe(4);
+    expect(deletes[0].params).toEqual([7n, 2]);
+    expect(deletes[0].sql).toContain('GROUP BY id, _owner');
+    expect(deletes[0].sql).toContain('OR (t._txid = latest._txid AND t._deleted_txid < $1)');
+    expect(deletes[0].sql).toContain('DELETE FROM tbl_a WHERE ctid = ANY(ARRAY(SELECT ctid FROM doomed)) RETURNING 1');
+  });
+
+  it('stops after maxBatches', async () => {
+    const pg = new GcPG(['tbl_a'], { tbl_a: [1, 1, 1] });
+    const report = await collectGarbage(pg, 3n, { batchSize: 1, maxBatches: 2 });
+    expect(report.removed).toBe(2);
+  });
+
+  it('rejects bad batch sizes and ptr names', async () => {
+    await expect(collectGarbage(new GcPG([]), 1n, { batchSize: 0 })).rejects.toThrow('GC batch size must be a positive integer');
+    await expect(collectGarbage(new GcPG(['tbl; DROP']), 1n)).rejects.toThrow('Invalid ptr in storage');
+  });
+});
+
+describe('generateGcFunction', () => {
+  it('runs the same batch in PL/pgSQL', () => {
+    const sql = generateGcFunction();
+    expect(sql).toContain('CREATE OR REPLACE FUNCTION kontract_gc(horizon BIGINT, batch_size INT DEFAULT 1000)');
+    expect(sql).toContain('RETURNS TABLE (ptr TEXT, removed BIGINT, duration_ms DOUBLE PRECISION)');
+    expect(sql).toContain("DELETE FROM %1$I WHERE ctid = ANY(ARRAY(SELECT ctid FROM doomed))', tbl.name, horizon, batch_size);");
+    expect(sql).toContain('EXIT WHEN deleted < batch_size;');
+    expect(generateGcScript({ batchSize: 50, unsafeHorizon: 42n })).toMatch(/LANGUAGE plpgsql;\n\nSELECT \* FROM kontract_gc\(42, 50\);$/);
+  });
+
+  it('reads the horizon from trxs when the script runs', () => {
+    const sql = generateGcScript();
+    expect(sql).toMatch(/SELECT \* FROM kontract_gc\(\(SELECT LEAST\([\s\S]*\)\), 1000\);$/);
+    expect(gcHorizonSQL()).toBe(`SELECT LEAST(
+  (SELECT MIN(create_txid) FROM trxs WHERE sid <> '__txid_hwm' AND NOT starts_with(sid, '__commit_')),
+  (SELECT COALESCE(MAX(create_txid), 0) + 1 FROM trxs WHERE sid = '__txid_hwm')
+)`);
+  });
+});
+
+describe('GcScheduler', () => {
+  it('collects at the SessionDO horizon', async () => {
+    const sessions = new SessionDO();
+    const tx = await sessions.beginTransaction('o');
+    const pg = new GcPG(['tbl_a'], { tbl_a: [3] });
+    const reports: number[] = [];
+    const gc = new GcScheduler(pg, sessions, { onReport: (r) => reports.push(r.removed) });
+    const [a, b] = await Promise.all([gc.run(), gc.run()]);
+    expect(a).toBe(b);
+    expect(a.horizon).toBe(tx.currentTxid);
+    expect(reports).toEqual([3]);
+    await gc.run();
+    expect(reports).toEqual([3, 0]);
+  });
+
+  it('runs on a timer until stopped and reports failures', async () => {
+    vi.useFakeTimers();
+    const errors: unknown[] = [];
+    const pg: PGClient = { query: async () => { throw new Error('db down'); } };
+    const gc = new GcScheduler(pg, new SessionDO(), { onError: (err) => errors.push(err) });
+    gc.start(1000);
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(errors.map((e) => (e as Error).message)).toEqual(['db down', 'db down']);
+    gc.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(errors.length).toBe(2);
+    gc.stop();
+  });
+});
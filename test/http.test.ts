@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { HttpResp, HttpError, UnauthorizedError, ForbiddenError, NotFoundError, PermissionError } from '../src/runtime/http';
+import { HttpResp, HttpError, UnauthorizedError, ForbiddenError, NotFoundError, PermissionError, ConflictError, ValidationError } from '../src/runtime/http';
 
 describe('HttpResp', () => {
   it('ok creates 200 response', () => {
@@ -70,4 +70,19 @@ describe('HttpError hierarchy', () => {
     const e = new UnauthorizedError('token expired');
     expect(e.message).toBe('token expired');
   });
+
+  it('ValidationError carries issues with INVALID_REQUEST', () => {
+    const e = new ValidationError([{ path: 'name', message: 'is required' }]);
+    expect(e.status).toBe(400);
+    expect(e.code).toBe('INVALID_REQUEST');
+    expect(e.message).toBe('Invalid request');
+    expect(e.issues).toEqual([{ path: 'name', message: 'is required' }]);
+  });
+
+  it('ConflictError defaults to 409', () => {
+    const e = new ConflictError();
+    expect(e.status).toBe(409);
+    expect(e.code).toBe('CONFLICT');
+    expect(e).toBeInstanceOf(HttpError);
+  });
 });
@@ -10,6 +10,10 @@ import {
   createMigration,
   applyMigration,
   generateMigrationTemplate,
+  generateSQLCreateIndex,
+  generateSQLDropIndex,
+  planSchemaMigration,
+  schemaHash,
 } from '../src/cli/migrate';
 
 const TMP = join(import.meta.dirname, '__tmp_migrate_test__');
@@ -51,6 +55,26 @@ describe('migrate - diffSchemas', () => {
     expect(sqlUnknown).toContain('TEXT');
   });
 
+  it('detects added and removed indexes', () => {
+    const oldS = { id: { type: 'string' }, email: { type: 'string', index: true } };
+    const newS = { id: { type: 'string', index: true }, email: { type: 'string' }, age: { type: 'number', index: true } };
+    const d = diffSchemas(oldS, newS);
+    expect(d.safe).toBe(true);
+    expect(d.changes).toEqual([
+      { type: 'add_index', field: 'id' },
+      { type: 'drop_index', field: 'email' },
+      { type: 'add_field', field: 'age' },
+      { type: 'add_index', field: 'age' },
+    ]);
+  });
+
+  it('generates expression index SQL', () => {
+    expect(generateSQLCreateIndex('tbl_users_abc', 'email'))
+      .toBe("CREATE INDEX IF NOT EXISTS idx_tbl_users_abc_email ON tbl_users_abc ((data->'email'));");
+    expect(generateSQLDropIndex('tbl_users_abc', 'email')).toBe('DROP INDEX IF EXISTS idx_tbl_users_abc_email;');
+    expect(() => generateSQLCreateIndex('tbl_users_abc', "x'); DROP TABLE y; --")).toThrow('Invalid index target');
+  });
+
   it('detects field removal as unsafe', () => {
     const oldS = { id: { type: 'string' }, email: { type: 'string' } };
     const newS = { id: { type: 'string' } };
@@ -122,3 +146,58 @@ describe('migrate - applyMigration', () => {
     expect(updated.migrations[0].timestamp).toBeDefined();
   });
 });
+
+describe('migrate - planSchemaMigration', () => {
+  function lockWithUsers() {
+    const lock = createEmptyLockFile();
+    lock.version = 2;
+    const schema = { id: { type: 'string', primkey: true }, email: { type: 'string' } };
+    lock.tables.users = { ptr: 'tbl_users_abc', schema, hash: schemaHash(schema) };
+    return lock;
+  }
+
+  it('plans index migrations and records schemas in the lock file', () => {
+    const lock = lockWithUsers();
+    const schemas = {
+      users: { id: { type: 'string', primkey: true }, email: { type: 'string', index: true } },
+      posts: { id: { type: 'string' } },
+    };
+    const { migration, skipped } = planSchemaMigration(lock, schemas);
+    expect(skipped).toEqual(['posts']);
+    expect(migration?.version).toBe(3);
+    expect(migration?.changes).toEqual([{ type: 'add_index', table: 'users', field: 'email' }]);
+    expect(migration?.sql).toContain('ON tbl_users_abc ((data->\'email\'))');
+
+    const updated = applyMigration(lock, migration!, schemas);
+    expect(updated.tables.users.schema.email.index).toBe(true);
+    expect(updated.tables.users.hash).toBe(schemaHash(schemas.users));
+    expect(updated.tables.posts).toBeUndefined();
+    expect(planSchemaMigration(updated, schemas).migration).toBeNull();
+  });
+
+  it('plans added fields and dropped indexes', () => {
+    const lock = lockWithUsers();
+    lock.tables.users.schema.email.index = true;
+    const { migration } = planSchemaMigration(lock, {
+      users: { id: { type: 'string', primkey: true }, email: { type: 'string' }, age: { type: 'number' } },
+    });
+    expect(migration?.changes).toEqual([
+      { type: 'drop_index', table: 'users', field: 'email' },
+      { type: 'add_field', table: 'users', field: 'age', fieldType: 'number' },
+    ]);
+    expect(migration?.sql).toBe('DROP INDEX IF EXISTS idx_tbl_users_abc_email;');
+  });
+
+  it('records added fields without SQL, since records live in the data column', () => {
+    const { migration } = planSchemaMigration(lockWithUsers(), {
+      users: { id: { type: 'string', primkey: true }, email: { type: 'string' }, 'x; DROP TABLE y': { type: 'string' } },
+    });
+    expect(migration?.changes).toEqual([{ type: 'add_field', table: 'users', field: 'x; DROP TABLE y', fieldType: 'string' }]);
+    expect(migration?.sql).toBe('');
+  });
+
+  it('throws on unsafe changes', () => {
+    expect(() => planSchemaMigration(lockWithUsers(), { users: { id: { type: 'number' } } }))
+      .toThrow('Unsafe schema change on users');
+  });
+});
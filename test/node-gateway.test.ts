@@ -1,8 +1,10 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { handleRequest } from '../src/adapters/node-gateway';
 import type { RuntimeAdapter, GatewayRequest, RouteHandler } from '../src/adapters/types';
 import { MemoryDOStub } from '../src/runtime/shared';
-import { HttpError } from '../src/runtime/http';
+import { HttpError, ValidationError } from '../src/runtime/http';
+import { SessionDO } from '../src/runtime/SessionDO';
+import type { Context } from '../src/storage/TableProxy';
 
 function createMockAdapter(routes?: Map<string, RouteHandler>): RuntimeAdapter {
   return {
@@ -136,6 +138,190 @@ describe('handleRequest', () => {
     expect(JSON.parse(res.body).error).toBe('INTERNAL_ERROR');
   });
 
+  it('rolls back writes when the handler throws', async () => {
+    const routes = new Map<string, RouteHandler>();
+    let undone = 0;
+    routes.set('half', {
+      handler: async (ctx) => {
+        ctx.tx?.onRollback(async () => { undone++; });
+        throw new Error('half-written');
+      },
+      meta: {},
+    });
+    routes.set('whole', {
+      handler: async (ctx) => {
+        ctx.tx?.onRollback(async () => { undone++; });
+        return 'ok';
+      },
+      meta: {},
+    });
+    const adapter = createMockAdapter(routes);
+
+    const failed = await handleRequest(makeReq({ method: 'POST', path: '/rpc/half', body: [] }), adapter);
+    expect(failed.status).toBe(500);
+    expect(undone).toBe(1);
+    const ok = await handleRequest(makeReq({ method: 'POST', path: '/rpc/whole', body: [] }), adapter);
+    expect(ok.status).toBe(200);
+    expect(undone).toBe(1);
+  });
+
+  it('returns validation issues with 400', async () => {
+    const routes = new Map<string, RouteHandler>();
+    routes.set('bad', {
+      handler: async () => {
+        throw new ValidationError([{ path: 'age', message: 'expected number' }]);
+      },
+      meta: {},
+    });
+    const adapter = createMockAdapter(routes);
+
+    const res = await handleRequest(makeReq({ method: 'POST', path: '/rpc/bad', body: [] }), adapter);
+    expect(res.status).toBe(400);
+    expect(JSON.parse(res.body)).toEqual({
+      error: 'INVALID_REQUEST',
+      message: 'Invalid request',
+      issues: [{ path: 'age', message: 'expected number' }],
+    });
+  });
+
+  it('returns 409 when a snapshot transaction conflicts at commit', async () => {
+    const routes = new Map<string, RouteHandler>();
+    routes.set('race', {
+      handler: async (ctx) => {
+        ctx.tx?.trackRead('tbl:1', async () => ctx.currentTxid + 1n);
+        return ctx.tx?.isolation;
+      },
+      meta: { isolation: 'snapshot' },
+    });
+    const adapter = createMockAdapter(routes);
+
+    const res = await handleRequest(makeReq({ method: 'POST', path: '/rpc/race', body: [] }), adapter);
+    expect(res.status).toBe(409);
+    expect(JSON.parse(res.body).error).toBe('CONFLICT');
+  });
+
+  it('returns 408 when the reaper aborted the transaction under the handler', async () => {
+    vi.useFakeTimers();
+    const sessionDO = new SessionDO(undefined, { maxTxDurationMs: 100 });
+    const routes = new Map<string, RouteHandler>();
+    routes.set('slow', {
+      handler: async () => {
+        // Reaped, then settled, before the handler returns
+        for (let i = 0; i < 2; i++) {
+          vi.advanceTimersByTime(101);
+          await sessionDO.reap();
+        }
+        return 'done';
+      },
+      meta: {},
+    });
+    const adapter = { ...createMockAdapter(routes), sessionDO };
+
+    try {
+      const res = await handleRequest(makeReq({ method: 'POST', path: '/rpc/slow', body: [] }), adapter);
+      expect(res.status).toBe(408);
+      expect(JSON.parse(res.body).error).toBe('TIMEOUT');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('lets a handler roll back to a savepoint and commit the rest', async () => {
+    const routes = new Map<string, RouteHandler>();
+    const undone: string[] = [];
+    routes.set('compose', {
+      handler: async (ctx) => {
+        ctx.tx?.onRollback(async () => { undone.push('outer'); });
+        const sp = ctx.savepoint!();
+        try {
+          ctx.tx?.onRollback(async () => { undone.push('helper'); });
+          throw new Error('helper failed');
+        } catch {
+          await ctx.rollbackTo!(sp);
+        }
+        return ctx.tx?.pendingUndo;
+      },
+      meta: {},
+    });
+    const adapter = createMockAdapter(routes);
+
+    const res = await handleRequest(makeReq({ method: 'POST', path: '/rpc/compose', body: [] }), adapter);
+    expect(res.status).toBe(200);
+    expect(JSON.parse(res.body).result).toBe(1);
+    expect(undone).toEqual(['helper']);
+  });
+
+  it('runs read-only routes without allocating a txid', async () => {
+    const routes = new Map<string, RouteHandler>();
+    const seen: unknown[] = [];
+    const handler = async (ctx: Context) => {
+      seen.push([ctx.readOnly, ctx.currentTxid]);
+      return null;
+    };
+    routes.set('list', { handler, meta: { readonly: true } });
+    routes.set('peek', { handler, meta: { perm: 0b100 } });
+    routes.set('write', { handler, meta: {} });
+    const sessionDO = new SessionDO();
+    const adapter = { ...createMockAdapter(routes), sessionDO };
+
+    for (const path of ['/rpc/write', '/rpc/list', '/rpc/peek']) {
+      expect((await handleRequest(makeReq({ method: 'POST', path, body: [] }), adapter)).status).toBe(200);
+    }
+    expect(seen).toEqual([[false, 1n], [true, 1n], [true, 1n]]);
+    expect(await sessionDO.allocateTxid()).toBe(2n);
+    expect(await sessionDO.listActive()).toEqual([]);
+  });
+
+  it('answers 403 for writes in read-only routes', async () => {
+    const routes = new Map<string, RouteHandler>();
+    routes.set('sneaky', {
+      handler: async (ctx) => {
+        await ctx.storage!.get('users').set('1', { id: '1', name: 'x' });
+        return null;
+      },
+      meta: { readonly: true },
+    });
+    const adapter = createMockAdapter(routes);
+
+    const res = await handleRequest(makeReq({ method: 'POST', path: '/rpc/sneaky', body: [] }), adapter);
+    expect(res.status).toBe(403);
+    expect(JSON.parse(res.body)).toEqual({
+      error: 'FORBIDDEN',
+      message: 'Table users cannot be written in a read-only transaction',
+    });
+  });
+
+  it('uses the adapter SessionDO when provided', async () => {
+    const routes = new Map<string, RouteHandler>();
+    routes.set('txid', { handler: async (ctx) => String(ctx.currentTxid), meta: {} });
+    const adapter = { ...createMockAdapter(routes), sessionDO: new SessionDO() };
+    await adapter.sessionDO.allocateTxid();
+
+    const res = await handleRequest(makeReq({ method: 'POST', path: '/rpc/txid', body: [] }), adapter);
+    expect(JSON.parse(res.body).result).toBe('2');
+    expect(adapter.sessionDO.minActiveTxid).toBe(2n);
+  });
+
+  it('injects storage scoped to the request owner', async () => {
+    const routes = new Map<string, RouteHandler>();
+    routes.set('ptr', { handler: async (ctx) => ctx.storage?.get('users').getPtr(), meta: {} });
+    const adapter = createMockAdapter(routes);
+    const seen: unknown[][] = [];
+    adapter.pg = {
+      async query(_sql: string, params?: unknown[]) {
+        seen.push(params ?? []);
+        return { rows: [{ ptr: 'tbl_users', permissions: 0b111 }] };
+      },
+    };
+
+    const res = await handleRequest(
+      makeReq({ method: 'POST', path: '/rpc/ptr', body: [], headers: { 'x-owner': 'bob' } }),
+      adapter,
+    );
+    expect(JSON.parse(res.body).result).toBe('tbl_users');
+    expect(seen).toEqual([['users', 'bob']]);
+  });
+
   it('sets x-owner header as transaction owner', async () => {
     const routes = new Map<string, RouteHandler>();
     routes.set('whoami', {
@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { verifyAccess, checkTablePermission, checkFieldPermissions, perms } from '../src/security/permissions';
+import {
+  verifyAccess,
+  checkTablePermission,
+  checkFieldPermissions,
+  checkWritableFields,
+  stripUnreadableFields,
+  perms,
+} from '../src/security/permissions';
+import { ForbiddenError, PermissionError } from '../src/runtime/http';
 
 describe('perms constants', () => {
   it('has correct bit values', () => {
@@ -31,6 +39,8 @@ describe('permissions', () => {
   it('table permission checks', () => {
     expect(() => checkTablePermission(0b100, 'read')).not.toThrow();
     expect(() => checkTablePermission(0b100, 'write')).toThrow();
+    expect(() => checkTablePermission(0b110, 'delete', 'users')).toThrow(ForbiddenError);
+    expect(() => checkTablePermission(0b110, 'delete', 'users')).toThrow('Cannot delete users');
   });
 
   it('field permission checks', () => {
@@ -39,4 +49,19 @@ describe('permissions', () => {
     expect(() => checkFieldPermissions(data, perms, 0b010)).not.toThrow();
     expect(() => checkFieldPermissions({ name: 'c' }, perms, 0b000)).toThrow();
   });
+
+  it('rejects writes to fields whose @perm lacks W', () => {
+    const perms = { email: 0b100, name: 0b110 };
+    expect(() => checkWritableFields({ email: 'a', name: 'b' }, perms)).toThrow(PermissionError);
+    expect(() => checkWritableFields({ email: 'a' }, perms)).toThrow("Field 'email' is read-only");
+    expect(() => checkWritableFields({ name: 'b', email: undefined }, perms)).not.toThrow();
+    expect(() => checkWritableFields({ other: 1 }, perms)).not.toThrow();
+  });
+
+  it('strips fields without the read bit', () => {
+    const perms = { secret: 0b010, email: 0b100 };
+    expect(stripUnreadableFields({ secret: 's', email: 'e', name: 'n' }, perms)).toEqual({ email: 'e', name: 'n' });
+    expect(stripUnreadableFields(null, perms)).toBeNull();
+    expect(stripUnreadableFields([1], perms)).toEqual([1]);
+  });
 });
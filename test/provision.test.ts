@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generatePtr,
+  generateProvisionScript,
+  generateSQLCreateTable,
+  generateSQLRegisterTable,
+  planProvisioning,
+  provisionTables,
+  STORAGE_TABLE_SQL,
+  STORAGE_UPGRADE_SQL,
+} from '../src/cli/provision';
+import { createEmptyLockFile, planSchemaMigration, schemaHash } from '../src/cli/migrate';
+import { createStorage } from '../src/storage/Storage';
+import type { PGClient } from '../src/storage/TableProxy';
+
+const schemas = {
+  user: { id: { type: 'string', primkey: true }, email: { type: 'string', index: true } },
+  post: { slug: { type: 'string', primkey: true } },
+};
+
+describe('provision - SQL', () => {
+  it('randomizes ptr names', () => {
+    const a = generatePtr('user');
+    expect(a).toMatch(/^tbl_user_[0-9a-f]{12}$/);
+    expect(generatePtr('user')).not.toBe(a);
+    expect(generatePtr('Odd-Name')).toMatch(/^tbl_odd_name_/);
+  });
+
+  it('creates the versioned columns and indexes', () => {
+    const sql = generateSQLCreateTable('tbl_user_1', schemas.user);
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS tbl_user_1');
+    for (const col of ['id            TEXT', 'data          JSONB', '_order        BIGSERIAL', '_txid', '_deleted_txid', '_owner']) {
+      expect(sql).toContain(col);
+    }
+    expect(sql).toContain('PRIMARY KEY (id, _txid)');
+    expect(sql).toContain('CREATE INDEX IF NOT EXISTS idx_tbl_user_1__owner ON tbl_user_1 (_owner);');
+    expect(sql).toContain("idx_tbl_user_1_email ON tbl_user_1 ((data->'email'))");
+    expect(generateSQLCreateTable('tbl_post_1')).not.toContain('data->');
+    expect(() => generateSQLCreateTable('tbl; DROP')).toThrow('Invalid ptr');
+  });
+
+  it('registers tables with quoted literals', () => {
+    expect(generateSQLRegisterTable('user', 'tbl_user_1', "o'brien", 0b101)).toBe(
+      "INSERT INTO storage (id, ptr, owner, permissions)\nVALUES ('user', 'tbl_user_1', 'o''brien', 5)\nON CONFLICT DO NOTHING;"
+    );
+    expect(() => generateSQLRegisterTable('user', 'tbl_user_1', 'o', 8)).toThrow('Invalid permissions: 8');
+  });
+});
+
+describe('provision - planProvisioning', () => {
+  it('assigns ptrs to new tables and records them in the lock file', () => {
+    const plan = planProvisioning(createEmptyLockFile(), schemas);
+    expect(plan.created).toEqual(['user', 'post']);
+    expect(plan.tables.map(t => t.table)).toEqual(['user', 'post']);
+    expect(plan.lock.tables.user).toEqual({ ptr: plan.tables[0].ptr, schema: schemas.user, hash: schemaHash(schemas.user) });
+    expect(planSchemaMigration(plan.lock, schemas)).toEqual({ migration: null, skipped: [] });
+  });
+
+  it('reuses ptrs and locked schemas on later runs', () => {
+    const first = planProvisioning(createEmptyLockFile(), schemas);
+    const changed = { ...schemas, user: { ...schemas.user, age: { type: 'number' } } };
+    const second = planProvisioning(first.lock, changed);
+    expect(second.created).toEqual([]);
+    expect(second.tables).toEqual(first.tables);
+    expect(second.lock).toEqual(first.lock);
+  });
+
+  it('adds the auth users table for the system owner', () => {
+    const plan = planProvisioning(createEmptyLockFile(), {}, { auth: true });
+    expect(plan.tables).toEqual([{ table: '__users', ptr: expect.stringMatching(/^tbl___users_/), schema: {}, owner: '__system' }]);
+  });
+
+  it('prints one idempotent script', () => {
+    const { tables } = planProvisioning(createEmptyLockFile(), schemas, { auth: true });
+    const sql = generateProvisionScript(tables, 'acme');
+    expect(sql.startsWith(['BEGIN;', STORAGE_TABLE_SQL, STORAGE_UPGRADE_SQL].join('\n\n'))).toBe(true);
+    expect(sql.endsWith('COMMIT;')).toBe(true);
+    expect(sql).toContain(`VALUES ('user', '${tables[0].ptr}', 'acme', 7)`);
+    expect(sql).toContain(`VALUES ('__users', '${tables[2].ptr}', '__system', 7)`);
+    expect(sql).not.toContain('RAISE EXCEPTION');
+  });
+
+  it('records single-owner ptrs and guards their registration', () => {
+    const plan = planProvisioning(createEmptyLockFile(), schemas, { auth: true, ownerScoped: false });
+    expect(plan.lock.tables.user.ownerScoped).toBe(false);
+    expect(plan.lock.tables.__users.ownerScoped).toBeUndefined();
+    expect(plan.tables.map(t => t.ownerScoped)).toEqual([false, false, undefined]);
+    expect(planProvisioning(plan.lock, schemas).tables).toEqual(plan.tables.slice(0, 2));
+
+    const sql = generateProvisionScript(plan.tables, "o'brien");
+    expect(sql).toContain(`IF EXISTS (SELECT 1 FROM storage WHERE ptr = '${plan.tables[0].ptr}' AND owner <> 'o''brien') THEN`);
+    expect(sql).toContain(`RAISE EXCEPTION 'Table user (${plan.tables[0].ptr}) is not owner-scoped`);
+    expect(sql.match(/RAISE EXCEPTION/g)).toHaveLength(2);
+  });
+});
+
+describe('provision - provisionTables', () => {
+  class MockPG implements PGClient {
+    calls: { sql: string; params?: unknown[] }[] = [];
+    registered = new Map<string, string>();
+    async query(sql: string, params?: unknown[]) {
+      this.calls.push({ sql, params });
+      if (sql.startsWith('SELECT owner FROM storage')) {
+        const owners = [...this.registered].filter(([k, ptr]) => ptr === params?.[0] && !k.endsWith(`:${params?.[1]}`));
+        return { rows: owners.map(([k]) => ({ owner: k.split(':')[1] })) };
+      }
+      if (sql.startsWith('SELECT ptr, permissions FROM storage')) {
+        return { rows: [{ ptr: this.registered.get(`${params?.[0]}:${params?.[1]}`), permissions: 7 }] };
+      }
+      if (!sql.startsWith('INSERT INTO storage')) return { rows: [] };
+      const key = `${params?.[0]}:${params?.[2]}`;
+      if (this.registered.has(key)) return { rows: [] };
+      this.registered.set(key, String(params?.[1]));
+      return { rows: [{ id: params?.[0] }] };
+    }
+  }
+
+  it('creates tables and registers only missing storage rows', async () => {
+    const pg = new MockPG();
+    const { tables } = planProvisioning(createEmptyLockFile(), schemas);
+    expect(await provisionTables(pg, tables, 'acme')).toEqual(['user', 'post']);
+    expect(pg.calls.slice(0, 2).map(c => c.sql)).toEqual([STORAGE_TABLE_SQL, STORAGE_UPGRADE_SQL]);
+    expect(STORAGE_UPGRADE_SQL).toContain("i.indisprimary AND a.attname = 'owner'");
+    expect(STORAGE_UPGRADE_SQL).toContain('ADD PRIMARY KEY (id, owner)');
+    expect(pg.calls.filter(c => c.sql.startsWith('CREATE TABLE IF NOT EXISTS tbl_')).length).toBe(2);
+    const insert = pg.calls.find(c => c.sql.startsWith('INSERT INTO storage'));
+    expect(insert?.params).toEqual(['user', tables[0].ptr, 'acme', 7]);
+
+    expect(await provisionTables(pg, tables, 'acme')).toEqual([]);
+    expect(await provisionTables(pg, tables, 'globex', 0b100)).toEqual(['user', 'post']);
+    expect(pg.calls[pg.calls.length - 1].params).toEqual(['post', tables[1].ptr, 'globex', 4]);
+  });
+
+  it('keeps the owners of a shared ptr apart', async () => {
+    const pg = new MockPG();
+    const first = planProvisioning(createEmptyLockFile(), schemas);
+    const second = planProvisioning(first.lock, schemas);
+    await provisionTables(pg, first.tables, 'acme');
+    await provisionTables(pg, second.tables, 'globex');
+    expect(pg.registered.get('user:acme')).toBe(pg.registered.get('user:globex'));
+
+    const ctx = { sid: 's', currentTxid: 10n, perm: 0b111 };
+    for (const owner of ['acme', 'globex']) {
+      const storage = createStorage(pg, { ...ctx, owner });
+      pg.calls = [];
+      await storage.get('user').get('1');
+      await storage.get('user').set('1', { id: '1', email: owner });
+      await storage.get('user').delete('1');
+      const statements = pg.calls.filter(c => c.sql.includes(first.tables[0].ptr));
+      expect(statements.length).toBeGreaterThan(2);
+      for (const call of statements) {
+        const filtered = call.sql.match(/_owner = \$\d+/g) ?? [];
+        expect(filtered.length, call.sql).toBeGreaterThan(0);
+        for (const f of filtered) expect(call.params?.[Number(f.split('$')[1]) - 1]).toBe(owner);
+      }
+    }
+  });
+
+  it('refuses to register a single-owner ptr for a second owner', async () => {
+    const pg = new MockPG();
+    const { tables } = planProvisioning(createEmptyLockFile(), schemas, { ownerScoped: false });
+    expect(await provisionTables(pg, tables, 'acme')).toEqual(['user', 'post']);
+    expect(await provisionTables(pg, tables, 'acme')).toEqual([]);
+    await expect(provisionTables(pg, tables, 'globex')).rejects.toThrow(
+      `Table user (${tables[0].ptr}) is not owner-scoped and is already registered for another owner`
+    );
+    expect(pg.registered.has('user:globex')).toBe(false);
+  });
+
+  it('rejects invalid permissions before touching the database', async () => {
+    const pg = new MockPG();
+    await expect(provisionTables(pg, [], 'acme', -1)).rejects.toThrow('Invalid permissions');
+    expect(pg.calls).toEqual([]);
+  });
+});
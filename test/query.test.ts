@@ -0,0 +1,321 @@
+import { describe, it, expect } from 'vitest';
+import { TableProxy, PGClient } from '../src/storage/TableProxy';
+import { QueryBuilder } from '../src/storage/query';
+import { SqlParams } from '../src/storage/sql';
+import { ForbiddenError, HttpError } from '../src/runtime/http';
+import { generateSQLCreateIndex } from '../src/cli/migrate';
+
+type AnyRec = Record<string, unknown>;
+
+interface User {
+  name: string;
+  age: number;
+  profile: { city: string };
+}
+
+class MockPG implements PGClient {
+  calls: { sql: string; params?: unknown[] }[] = [];
+  rows: Array<Record<string, unknown>> = [];
+  async query(sql: string, params?: unknown[]) {
+    this.calls.push({ sql, params });
+    if (/SELECT ptr, permissions FROM storage/.test(sql)) return { rows: [{ ptr: 'tbl_users_abc' }] };
+    return { rows: this.rows };
+  }
+}
+
+const ctx = { sid: 's', owner: 'o', currentTxid: 10n, perm: 0b111 };
+
+function setup() {
+  const pg = new MockPG();
+  const proxy = new TableProxy<User>(pg, 'users', ctx);
+  return { pg, proxy, last: () => pg.calls[pg.calls.length - 1] };
+}
+
+describe('QueryBuilder', () => {
+  it('compiles comparisons on nested paths with MVCC visibility', async () => {
+    const { pg, proxy, last } = setup();
+    pg.rows = [{ data: { name: 'A' } }, { data: { name: 'B' } }];
+    const out = await proxy.find()
+      .where('age', 'gte', 18)
+      .where('profile.city', 'eq', 'Paris')
+      .all();
+    expect(out.map(u => u.name)).toEqual(['A', 'B']);
+    const { sql, params } = last();
+    expect(sql).toContain('SELECT id, data, _order FROM tbl_users_abc');
+    expect(sql).toContain('_txid < $1 AND _txid <> ALL($2::bigint[])');
+    expect(sql).toContain("data->'age' >= $3::jsonb");
+    expect(sql).toContain('data #> $4::text[] = $5::jsonb');
+    expect(sql).toContain('ORDER BY _order, id LIMIT $6');
+    expect(params).toEqual([10n, [], '18', ['profile', 'city'], '"Paris"', 500]);
+  });
+
+  it('compiles ne, in, like, lt, gt and lte', async () => {
+    const { proxy, last } = setup();
+    await proxy.find()
+      .where('name', 'ne', 'x')
+      .where('name', 'in', ['a', 'b'])
+      .where('name', 'like', 'A%')
+      .where('age', 'lt', 65)
+      .where('age', 'gt', 1)
+      .where('age', 'lte', 64)
+      .all();
+    const { sql, params } = last();
+    expect(sql).toContain("data->'name' IS DISTINCT FROM $3::jsonb");
+    expect(sql).toContain("data->'name' IN (SELECT jsonb_array_elements($4::jsonb))");
+    expect(sql).toContain("data->>'name' LIKE $5");
+    expect(sql).toContain("data->'age' < $6::jsonb");
+    expect(sql).toContain("data->'age' > $7::jsonb");
+    expect(sql).toContain("data->'age' <= $8::jsonb");
+    expect(params?.[3]).toBe('["a","b"]');
+    expect(params?.[4]).toBe('A%');
+  });
+
+  it('orders by data fields, then list order, and pages', async () => {
+    const { proxy, last } = setup();
+    await proxy.find().orderBy('age', 'desc').orderBy('name').limit(10).offset(20).all();
+    const { sql, params } = last();
+    expect(sql).toContain("ORDER BY data->'age' DESC, data->'name' ASC, _order, id LIMIT $3 OFFSET $4");
+    expect(params?.slice(2)).toEqual([10, 20]);
+  });
+
+  it('first() fetches a single row without changing the builder', async () => {
+    const { pg, proxy, last } = setup();
+    const q = proxy.find().where('name', 'eq', 'A');
+    pg.rows = [];
+    expect(await q.first()).toBeNull();
+    expect(last().sql).toContain('LIMIT $4');
+    pg.rows = [{ data: { name: 'A' } }];
+    expect((await q.first())?.name).toBe('A');
+    await q.all();
+    expect(last().params?.[3]).toBe(500);
+  });
+
+  it('count() ignores ordering and paging', async () => {
+    const { pg, proxy, last } = setup();
+    pg.rows = [{ count: '3' }];
+    expect(await proxy.find().where('age', 'gt', 1).orderBy('name').limit(1).count()).toBe(3);
+    const { sql, params } = last();
+    expect(sql).toContain('SELECT COUNT(*) AS count FROM tbl_users_abc WHERE');
+    expect(sql).not.toContain('ORDER BY');
+    expect(sql).not.toContain('LIMIT');
+    expect(params).toEqual([10n, [], '1']);
+    pg.rows = [];
+    expect(await proxy.find().count()).toBe(0);
+  });
+
+  it('honors asOf views', async () => {
+    const { proxy, last } = setup();
+    await proxy.asOf(4n).find().all();
+    expect(last().sql).toContain('_txid <= $1');
+  });
+
+  it('rejects invalid paths, in values and paging', () => {
+    const q = setup().proxy.find();
+    expect(() => q.where('profile..city', 'eq', 1)).toThrow('Invalid field path');
+    expect(() => q.where('name', 'in', 'a' as unknown as unknown[])).toThrow("'in' expects an array");
+    expect(() => q.limit(-1)).toThrow('limit must be a non-negative integer');
+    expect(() => q.offset(1.5)).toThrow('offset must be a non-negative integer');
+  });
+
+  it('compiles against any scope', async () => {
+    const q = new QueryBuilder<User>(new MockPG(), async () => ({ ptr: 't', visible: 'TRUE' }));
+    const sql = await q.where('name', 'eq', 'A').toSQL(new SqlParams());
+    expect(sql).toContain("WHERE data->'name' = $1::jsonb\n        AND TRUE");
+  });
+
+  it('filters and sorts top-level fields on the expression @index creates', async () => {
+    const index = /\(\((.+)\)\);$/.exec(generateSQLCreateIndex('tbl_users_abc', 'age'))![1];
+    const { proxy, last } = setup();
+    await proxy.find().where('age', 'gte', 18).orderBy('age').all();
+    expect(last().sql).toContain(`WHERE ${index} >= $3::jsonb`);
+    expect(last().sql).toContain(`ORDER BY ${index} ASC`);
+    await proxy.query({ age: 30 }).next();
+    expect(last().sql).toContain(`WHERE ${index} = $3::jsonb`);
+  });
+
+  describe('paging', () => {
+    const row = (id: string, order: number, data: Record<string, unknown>) => ({ id, _order: order, data });
+
+    class PagedPG extends MockPG {
+      pages: Array<Array<Record<string, unknown>>> = [];
+      async query(sql: string, params?: unknown[]) {
+        if (/SELECT ptr, permissions FROM storage/.test(sql)) return super.query(sql, params);
+        this.calls.push({ sql, params });
+        return { rows: this.pages.shift() ?? [] };
+      }
+    }
+
+    it('streams in keyset pages after the last row', async () => {
+      const pg = new PagedPG();
+      pg.pages = [[row('a', 1, { n: 1 }), row('b', 2, { n: 2 })], [row('c', 3, { n: 3 })]];
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
+      const out = [];
+      for await (const u of proxy.query({ done: false }, { pageSize: 2 })) out.push(u.n);
+      expect(out).toEqual([1, 2, 3]);
+      const [first, second] = pg.calls.filter(c => c.sql.includes("data->'done' = $3::jsonb"));
+      expect(first.sql).not.toContain('_order >');
+      expect(second.sql).toContain('(_order > $4 OR _order = $5 AND id > $6)');
+      expect(second.params?.slice(3)).toEqual(['2', '2', 'b', 2]);
+    });
+
+    it('stream stops at the builder limit and applies offset once', async () => {
+      const pg = new PagedPG();
+      pg.pages = [[row('a', 1, {}), row('b', 2, {})], [row('c', 3, {})]];
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
+      const out = [];
+      for await (const u of proxy.find().offset(5).limit(3).stream(2)) out.push(u);
+      expect(out.length).toBe(3);
+      const [first, second] = pg.calls.slice(1);
+      expect(first.sql).toContain('LIMIT $3 OFFSET $4');
+      expect(first.params?.slice(2)).toEqual([2, 5]);
+      expect(second.sql).not.toContain('OFFSET');
+      expect(second.params?.[second.params.length - 1]).toBe(1);
+      await expect(proxy.find().stream(0).next()).rejects.toThrow('page size must be a positive integer');
+    });
+
+    it('page returns items and an opaque cursor that resumes after them', async () => {
+      const pg = new PagedPG();
+      pg.pages = [[row('a', 1, { age: 30 }), row('b', 2, { age: 20 }), row('c', 3, { age: 10 })]];
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
+      const q = proxy.find().orderBy('age', 'desc');
+      const first = await q.page({ limit: 2 });
+      expect(first.items).toEqual([{ age: 30 }, { age: 20 }]);
+      expect(first.nextCursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(pg.calls[pg.calls.length - 1].params?.slice(-1)).toEqual([3]);
+
+      pg.pages = [[row('c', 3, { age: 10 })]];
+      const second = await q.page({ limit: 2, cursor: first.nextCursor });
+      expect(second).toEqual({ items: [{ age: 10 }], nextCursor: null });
+      const { sql, params } = pg.calls[pg.calls.length - 1];
+      expect(sql).toContain("(data->'age' < $6::jsonb OR data->'age' = $6::jsonb AND (_order > $3");
+      expect(params?.slice(2, 6)).toEqual(['2', '2', 'b', '20']);
+    });
+
+    it('keyset handles missing sort fields', async () => {
+      const pg = new PagedPG();
+      pg.pages = [[row('a', 1, {}), row('b', 2, {})]];
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx);
+      const asc = await proxy.find().orderBy('profile.city').page({ limit: 1 });
+      pg.pages = [[]];
+      await proxy.find().orderBy('profile.city').page({ limit: 1, cursor: asc.nextCursor });
+      expect(pg.calls[pg.calls.length - 1].sql).toContain('(FALSE OR data #> $6::text[] IS NULL AND');
+
+      pg.pages = [[row('a', 1, { profile: { city: 'Oslo' } }), row('b', 2, {})]];
+      const desc = await proxy.find().orderBy('profile.city', 'desc').page({ limit: 1 });
+      pg.pages = [[]];
+      await proxy.find().orderBy('profile.city', 'desc').page({ limit: 1, cursor: desc.nextCursor });
+      expect(pg.calls[pg.calls.length - 1].params).toContain('"Oslo"');
+
+      pg.pages = [[row('b', 2, {}), row('a', 1, {})]];
+      const descNull = await proxy.find().orderBy('profile.city', 'desc').page({ limit: 1 });
+      pg.pages = [[]];
+      await proxy.find().orderBy('profile.city', 'desc').page({ limit: 1, cursor: descNull.nextCursor });
+      expect(pg.calls[pg.calls.length - 1].sql).toContain('(data #> $6::text[] IS NOT NULL OR data #> $6::text[] IS NULL AND');
+
+      pg.pages = [[row('a', 1, { profile: { city: 'Oslo' } }), row('b', 2, {})]];
+      const ascValue = await proxy.find().orderBy('profile.city').page({ limit: 1 });
+      pg.pages = [[]];
+      await proxy.find().orderBy('profile.city').page({ limit: 1, cursor: ascValue.nextCursor });
+      expect(pg.calls[pg.calls.length - 1].sql).toContain('(data #> $6::text[] > $7::jsonb OR data #> $6::text[] IS NULL)');
+    });
+
+    it('rejects malformed cursors with a 400', async () => {
+      const proxy = new TableProxy<AnyRec>(new PagedPG(), 'users', ctx);
+      const err = await proxy.find().page({ limit: 1, cursor: '!!!' }).catch(e => e);
+      expect(err).toBeInstanceOf(HttpError);
+      expect(err.status).toBe(400);
+      expect(err.code).toBe('INVALID_REQUEST');
+      const foreign = btoa(JSON.stringify([[[1]], '1', 'a']));
+      await expect(proxy.find().page({ limit: 1, cursor: foreign })).rejects.toThrow('Invalid cursor');
+    });
+
+    it('page rejects offset and bad sizes', async () => {
+      const proxy = new TableProxy<AnyRec>(new PagedPG(), 'users', ctx);
+      await expect(proxy.find().offset(1).page({ limit: 1 })).rejects.toThrow('cannot be combined with offset');
+      await expect(proxy.find().page({ limit: 0 })).rejects.toThrow('page size');
+    });
+  });
+
+  describe('aggregations', () => {
+    it('compiles typed aggregates over visible records in one statement', async () => {
+      const { pg, proxy, last } = setup();
+      pg.rows = [{ a0: '4', a1: '3', a2: 61.5, a3: 20.5, a4: 18, a5: 'Zoe' }];
+      const totals = await proxy.find().where('age', 'gt', 1).orderBy('name').limit(1).aggregate({
+        users: ['count'],
+        aged: ['count', 'age'],
+        total: ['sum', 'age'],
+        mean: ['avg', 'age'],
+        youngest: ['min', 'age'],
+        last: ['max', 'name'],
+      });
+      expect(totals).toEqual({ users: 4, aged: 3, total: 61.5, mean: 20.5, youngest: 18, last: 'Zoe' });
+      const { sql, params } = last();
+      expect(sql).toContain("SELECT COUNT(*) AS a0, COUNT(NULLIF(data->'age', 'null'::jsonb)) AS a1");
+      expect(sql).toContain("SUM(CASE WHEN jsonb_typeof(data->'age') = 'number' THEN (data->'age' #>> '{}')::numeric END)::float8 AS a2");
+      expect(sql).toContain("COALESCE(to_jsonb(MAX(CASE WHEN jsonb_typeof(data->'name') = 'number'");
+      expect(sql).toContain("to_jsonb(MAX(CASE WHEN jsonb_typeof(data->'name') = 'string' THEN data->'name' #>> '{}' END))) AS a5");
+      expect(sql).toContain('FROM tbl_users_abc\n      WHERE');
+      expect(sql).toContain('NOT EXISTS');
+      expect(sql).not.toContain('ORDER BY');
+      expect(sql).not.toContain('LIMIT');
+      expect(params).toEqual([10n, [], '1']);
+    });
+
+    it('returns null sums and zero counts for empty matches', async () => {
+      const { pg, proxy, last } = setup();
+      pg.rows = [{ a0: null }];
+      expect(await proxy.sum('age')).toBeNull();
+      expect(await proxy.avg('age', { name: 'A' })).toBeNull();
+      expect(last().sql).toContain("data->'name' = $");
+      expect(await proxy.min('profile.city')).toBeNull();
+      expect(await proxy.max('age')).toBeNull();
+      expect(await proxy.find().count('age')).toBe(0);
+      pg.rows = [{ count: '2' }];
+      expect(await proxy.count()).toBe(2);
+      expect(last().sql).not.toContain("data->'name'");
+      pg.rows = [{ a0: '7' }];
+      expect(await proxy.sum('age')).toBe(7);
+      pg.rows = [{ a0: 18 }];
+      expect(await proxy.find().min('age')).toBe(18);
+    });
+
+    it('groups by a field value with the missing-field group last', async () => {
+      const { pg, proxy, last } = setup();
+      pg.rows = [
+        { key: 'Oslo', a0: '2', a1: 50 },
+        { key: null, a0: '1', a1: null },
+      ];
+      const groups = await proxy.groupBy('profile.city', { n: ['count'], total: ['sum', 'age'] }, { name: 'A' });
+      expect(groups).toEqual([
+        { key: 'Oslo', values: { n: 2, total: 50 } },
+        { key: null, values: { n: 1, total: null } },
+      ]);
+      const { sql, params } = last();
+      expect(sql).toContain("SELECT NULLIF(data #> $1::text[], 'null'::jsonb) AS key, COUNT(*) AS a0");
+      expect(sql).toContain('GROUP BY 1\n      ORDER BY 1');
+      expect(sql).toContain("SUM(CASE WHEN jsonb_typeof(data->'age') = 'number'");
+      expect(params?.slice(0, 2)).toEqual([['profile', 'city'], 10n]);
+    });
+
+    it('rejects empty aggregate lists and write-only fields', async () => {
+      const pg = new MockPG();
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx, { fieldPerms: { salary: 0b010, email: 0b100 } });
+      await expect(proxy.find().aggregate({})).rejects.toThrow('At least one aggregate is required');
+      await expect(proxy.sum('salary')).rejects.toThrow("Cannot read field 'salary'");
+      await expect(proxy.groupBy('salary.band', { n: ['count'] })).rejects.toThrow(ForbiddenError);
+      await expect(proxy.max('email')).resolves.toBeNull();
+    });
+
+    it('rejects filters and sorts on write-only fields', async () => {
+      const pg = new MockPG();
+      const proxy = new TableProxy<AnyRec>(pg, 'users', ctx, { fieldPerms: { salary: 0b010, email: 0b100 } });
+      expect(() => proxy.find().where('salary', 'gt', 1000)).toThrow("Cannot read field 'salary'");
+      expect(() => proxy.find().where('salary.band', 'like', 'A%')).toThrow(ForbiddenError);
+      expect(() => proxy.find().orderBy('salary', 'desc')).toThrow(ForbiddenError);
+      expect(() => proxy.find().match({ salary: 1 })).toThrow(ForbiddenError);
+      await expect(proxy.query({ salary: 1 }).next()).rejects.toThrow(ForbiddenError);
+      await expect(proxy.find().where('email', 'eq', 'a').orderBy('email').match({ email: 'a' }).all()).resolves.toEqual([]);
+      expect(pg.calls.filter((c) => !c.sql.includes('FROM storage'))).toHaveLength(1);
+    });
+  });
+});
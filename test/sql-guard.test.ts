@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { guardSql, tokenizeSql } from '../src/storage/sql-guard';
+
+const rewrite = (sql: string) => guardSql(sql, 'users').rewrite('tbl', () => 'V');
+const rows = '(SELECT * FROM tbl WHERE V)';
+
+describe('tokenizeSql', () => {
+  it('keeps literals, quoted identifiers and params whole and drops comments', () => {
+    const tokens = tokenizeSql(`SELECT "A""b", 'it''s', E'\\'', $1, $tag$ ; $tag$, 1.5e3 -- x\n/* a /* b */ c */ FROM t;`);
+    expect(tokens.map(t => [t.kind, t.value])).toEqual([
+      ['word', 'select'],
+      ['identifier', 'A"b'],
+      ['symbol', ','],
+      ['string', "'it''s'"],
+      ['symbol', ','],
+      ['string', "E'\\''"],
+      ['symbol', ','],
+      ['param', '$1'],
+      ['symbol', ','],
+      ['string', '$tag$ ; $tag$'],
+      ['symbol', ','],
+      ['number', '1.5e3'],
+      ['word', 'from'],
+      ['word', 't'],
+      ['symbol', ';'],
+    ]);
+  });
+
+  it('rejects unterminated input', () => {
+    expect(() => tokenizeSql("SELECT 'x")).toThrow('Unterminated string literal');
+    expect(() => tokenizeSql('SELECT "x')).toThrow('Unterminated quoted identifier');
+    expect(() => tokenizeSql('SELECT $a$ x')).toThrow('Unterminated dollar-quoted string');
+    expect(() => tokenizeSql('SELECT /* /* */')).toThrow('Unterminated comment');
+  });
+});
+
+describe('guardSql', () => {
+  it('reads the visible rows of the table under its own name or alias', () => {
+    expect(rewrite('SELECT * FROM users WHERE id = $1')).toBe(`SELECT * FROM ${rows} AS users WHERE id = $1`);
+    expect(rewrite('SELECT u.data FROM USERS u, "users" AS v')).toBe(
+      `SELECT u.data FROM ${rows} u, ${rows} AS v`
+    );
+    expect(rewrite('SELECT * FROM (users JOIN LATERAL users x USING (id))')).toBe(
+      `SELECT * FROM (${rows} AS users JOIN LATERAL ${rows} x USING (id))`
+    );
+  });
+
+  it('limits UPDATE and DELETE targets to visible versions', () => {
+    expect(rewrite('UPDATE users SET data = $1 WHERE id = $2 RETURNING id')).toBe(
+      'UPDATE tbl AS users SET data = $1 WHERE (users.id, users._txid) IN (SELECT id, _txid FROM tbl WHERE V) AND (id = $2) RETURNING id'
+    );
+    expect(rewrite('DELETE FROM users -- all')).toBe(
+      'DELETE FROM tbl AS users WHERE (users.id, users._txid) IN (SELECT id, _txid FROM tbl WHERE V) -- all'
+    );
+    expect(rewrite('DELETE FROM ONLY users u USING users v WHERE u.id = v.id')).toBe(
+      `DELETE FROM ONLY tbl u USING ${rows} v WHERE (u.id, u._txid) IN (SELECT id, _txid FROM tbl WHERE V) AND (u.id = v.id)`
+    );
+    expect(rewrite('WITH d AS (DELETE FROM users RETURNING *) SELECT count(*) FROM d')).toBe(
+      'WITH d AS (DELETE FROM tbl AS users WHERE (users.id, users._txid) IN (SELECT id, _txid FROM tbl WHERE V) RETURNING *) SELECT count(*) FROM d'
+    );
+  });
+
+  it('renames INSERT targets without filtering them', () => {
+    expect(rewrite('INSERT INTO users (id, data) VALUES ($1, $2) ON CONFLICT (id, _txid) DO UPDATE SET data = EXCLUDED.data')).toBe(
+      'INSERT INTO tbl AS users (id, data) VALUES ($1, $2) ON CONFLICT (id, _txid) DO UPDATE SET data = EXCLUDED.data'
+    );
+  });
+
+  it('ignores FROM inside function calls, locking clauses and literals', () => {
+    expect(rewrite("SELECT EXTRACT(YEAR FROM now()), a IS DISTINCT FROM b, 'FROM other' FROM users FOR UPDATE;")).toBe(
+      `SELECT EXTRACT(YEAR FROM now()), a IS DISTINCT FROM b, 'FROM other' FROM ${rows} AS users FOR UPDATE;`
+    );
+    expect(rewrite('SELECT * FROM jsonb_each($1) j, (VALUES (1, 2)) AS v(a, b)')).toBe(
+      'SELECT * FROM jsonb_each($1) j, (VALUES (1, 2)) AS v(a, b)'
+    );
+  });
+
+  it('allows calls to known-safe functions and type modifiers', () => {
+    const sql = "SELECT count(*), lower(data->>'name'), coalesce(x, 1)::numeric(10, 2), CAST(y AS varchar(5)) FROM users";
+    expect(rewrite(sql)).toBe(sql.replace('FROM users', `FROM ${rows} AS users`));
+    expect(rewrite('SELECT n FROM generate_series(1, 3) g(n)')).toBe('SELECT n FROM generate_series(1, 3) g(n)');
+  });
+
+  it('allows CTEs the statement declares', () => {
+    expect(rewrite('WITH RECURSIVE r (n) AS NOT MATERIALIZED (SELECT 1), s AS (SELECT * FROM users) SELECT * FROM r, s')).toBe(
+      `WITH RECURSIVE r (n) AS NOT MATERIALIZED (SELECT 1), s AS (SELECT * FROM ${rows} AS users) SELECT * FROM r, s`
+    );
+    expect(() => guardSql('WITH users AS (SELECT 1) SELECT * FROM users', 'users')).toThrow(
+      'Common table expression cannot be named users'
+    );
+  });
+
+  it('derives the permissions a statement needs', () => {
+    expect(guardSql('SELECT 1', 'users').operations).toEqual(['read']);
+    expect(guardSql('INSERT INTO users SELECT * FROM users', 'users').operations).toEqual(['write', 'read']);
+    expect(guardSql('UPDATE users SET data = $1', 'users').operations).toEqual(['write']);
+    expect(guardSql('DELETE FROM users', 'users').operations).toEqual(['delete']);
+  });
+
+  it.each([
+    ['SELECT * FROM other', 'Cannot access other tables'],
+    ['SELECT * FROM users JOIN other ON true', 'Cannot access other tables'],
+    ['SELECT * FROM users, other', 'Cannot access other tables'],
+    ['SELECT * FROM "Users"', 'Cannot access other tables'],
+    ['SELECT * FROM public.users', 'Cannot access other tables'],
+    ['SELECT * FROM (other)', 'Cannot access other tables'],
+    ['SELECT * FROM users WHERE id IN (SELECT id FROM pg_class)', 'Cannot access other tables'],
+    ['WITH x AS (SELECT * FROM other) SELECT * FROM users', 'Cannot access other tables'],
+    ['UPDATE users SET data = o.data FROM other o', 'Cannot access other tables'],
+    ['INSERT INTO other SELECT * FROM users', 'Cannot access other tables'],
+    ['DELETE FROM users USING other', 'Cannot access other tables'],
+    ["SELECT query_to_xml('select * from storage', true, true, '') FROM users", 'Function query_to_xml is not allowed'],
+    ["SELECT * FROM users, dblink('', 'select ptr from storage') AS t(x text)", 'Function dblink is not allowed'],
+    ["SELECT set_config('role', 'postgres', false)", 'Function set_config is not allowed'],
+    ["SELECT current_setting('role')", 'Function current_setting is not allowed'],
+    ['SELECT pg_read_file($1)', 'Function pg_read_file is not allowed'],
+    ['SELECT lo_import($1)', 'Function lo_import is not allowed'],
+    ['SELECT * FROM users WHERE "query_to_xml"($1, true, true, \'\') IS NULL', 'Function query_to_xml is not allowed'],
+    ["SELECT pg_catalog.set_config('role', 'x', false)", 'Schema-qualified function calls are not allowed'],
+    ["WITH set_config (a) AS (SELECT 1) SELECT set_config('role', 'x', false)", 'Function set_config is not allowed'],
+    ['SELECT 1; DROP TABLE users', 'Only one statement may be executed'],
+    ['DROP TABLE users', 'DROP statements are not allowed'],
+    ['alter table users add column x int', 'ALTER statements are not allowed'],
+    ['SELECT * INTO copy FROM users', 'SELECT INTO is not allowed'],
+    ['SELECT * FROM users UNION TABLE users', 'TABLE queries are not supported'],
+    ['SELECT (1', 'Unbalanced parentheses'],
+    ['SELECT 1)', 'Unbalanced parentheses'],
+    ['  -- nothing', 'Empty statement'],
+  ])('rejects %s', (sql, message) => {
+    expect(() => guardSql(sql, 'users')).toThrow(message);
+  });
+
+  it('computes the visibility predicate once', () => {
+    let calls = 0;
+    guardSql('SELECT * FROM users a JOIN users b ON a.id = b.id', 'users').rewrite('tbl', () => `V${++calls}`);
+    expect(calls).toBe(1);
+  });
+});
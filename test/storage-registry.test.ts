@@ -11,4 +11,133 @@ describe('storage registry', () => {
     expect(r.keys).toEqual(['user','post']);
     expect(r.dts).toContain('StorageRegistry');
   });
+
+  it('augments the package StorageRegistry with the declared interface names', () => {
+    const r = generateStorageRegistry('interface OrderItem { id: string; qty: number; }');
+    expect(r.keys).toEqual(['orderitem']);
+    expect(r.dts).toBe([
+      'export {};',
+      "declare module '@rand0mdevel0per/kontract' {",
+      '  interface StorageRegistry {',
+      '    orderitem: OrderItem;',
+      '  }',
+      '}'
+    ].join('\n'));
+  });
+
+  it('imports the interfaces from the source module when given one', () => {
+    const r = generateStorageRegistry('export interface User { id: string } export interface OrderItem { id: string }', './schema');
+    expect(r.dts.split('\n').slice(0, 2)).toEqual([
+      "import type { User, OrderItem } from './schema';",
+      "declare module '@rand0mdevel0per/kontract' {",
+    ]);
+  });
+
+  it('rejects interfaces whose table key ctx.storage reserves', () => {
+    expect(() => generateStorageRegistry('interface Options { id: string }'))
+      .toThrow("Interface Options maps to table key 'options', which ctx.storage reserves; rename it");
+    expect(() => generateStorageRegistry('interface Then { id: string }')).toThrow("table key 'then'");
+    expect(generateStorageRegistry('interface Metadata { id: string }').keys).toEqual(['metadata']);
+  });
+
+  it('extracts field schemas with @primkey, @perm and @index', () => {
+    const src = `
+      interface User {
+        @primkey id: string;
+        @index email: string;
+        @perm(perms.R__) @index
+        age: number;
+        active: boolean;
+        profile: { city: string };
+      }
+      interface Tag { label: string; @perm(6) note: string }
+    `;
+    const r = generateStorageRegistry(src);
+    expect(r.keys).toEqual(['user', 'tag']);
+    expect(r.schemas.user).toEqual({
+      id: { type: 'string', primkey: true },
+      email: { type: 'string', index: true },
+      age: { type: 'number', perm: 0b100, index: true },
+      active: { type: 'boolean' },
+      profile: { type: '{ city: string }' },
+    });
+    expect(r.schemas.tag.note).toEqual({ type: 'string', perm: 6 });
+    expect(r.fieldPerms).toEqual({ user: { age: 0b100 }, tag: { note: 6 } });
+  });
+
+  it('rejects unknown @perm arguments', () => {
+    expect(() => generateStorageRegistry('interface A { @perm(perms.NOPE) x: string }')).toThrow('Invalid @perm argument');
+  });
+
+  it('infers primary keys from @primkey or the first field', () => {
+    const r = generateStorageRegistry(`
+      interface User { name: string; @primkey email: string; }
+      interface Post { slug: string; title: string; }
+    `);
+    expect(r.primaryKeys).toEqual({ user: 'email', post: 'slug' });
+    expect(r.schemas.post.slug.primkey).toBe(true);
+    expect(r.schemas.user.name.primkey).toBeUndefined();
+  });
+
+  it('rejects ambiguous or missing primary keys', () => {
+    expect(() => generateStorageRegistry('interface A { @primkey a: string; @primkey b: string }'))
+      .toThrow('more than one @primkey');
+    expect(() => generateStorageRegistry('interface Empty {}')).toThrow('has no properties');
+  });
+
+  it('collects @ref relations between interfaces', () => {
+    const r = generateStorageRegistry(`
+      interface Customer { id: string; name: string }
+      interface Order { id: string; @ref(Customer) @index customerId: string; @ref('order') parentId?: string }
+    `);
+    expect(r.relations).toEqual({ customer: {}, order: { customerId: 'customer', parentId: 'order' } });
+    expect(r.schemas.order.customerId).toEqual({ type: 'string', index: true, ref: 'customer' });
+  });
+
+  it('rejects @ref without a known target', () => {
+    expect(() => generateStorageRegistry('interface A { @ref b: string }')).toThrow('@ref on A.b needs a target interface');
+    expect(() => generateStorageRegistry('interface A { @ref(Nope) b: string }'))
+      .toThrow("@ref on a.b names unknown interface 'nope'");
+  });
+
+  it('emits runtime shapes with nested, optional and referenced types', () => {
+    const r = generateStorageRegistry(`
+      interface Address { city: string; zip?: string }
+      interface User {
+        id: string;
+        age: number | undefined;
+        tags: Array<string>;
+        flags: boolean[];
+        role: 'admin' | 'user' | null;
+        level: 1 | 2;
+        active: true | false;
+        home: Address;
+        friends: User[];
+        meta: { note: (string) };
+        created: Date;
+        loose: string | any;
+      }
+    `);
+    const user = r.shapes.user;
+    expect(user.kind).toBe('object');
+    if (user.kind !== 'object') return;
+    expect(user.fields.id).toEqual({ shape: { kind: 'string' } });
+    expect(user.fields.age).toEqual({ shape: { kind: 'union', options: [{ kind: 'number' }] }, optional: true });
+    expect(user.fields.tags.shape).toEqual({ kind: 'array', items: { kind: 'string' } });
+    expect(user.fields.flags.shape).toEqual({ kind: 'array', items: { kind: 'boolean' } });
+    expect(user.fields.role.shape).toEqual({
+      kind: 'union',
+      options: [{ kind: 'literal', value: 'admin' }, { kind: 'literal', value: 'user' }, { kind: 'null' }],
+    });
+    expect(user.fields.level.shape).toEqual({ kind: 'union', options: [{ kind: 'literal', value: 1 }, { kind: 'literal', value: 2 }] });
+    expect(user.fields.active.shape).toEqual({ kind: 'union', options: [{ kind: 'literal', value: true }, { kind: 'literal', value: false }] });
+    expect(user.fields.home.shape).toEqual({
+      kind: 'object',
+      fields: { city: { shape: { kind: 'string' } }, zip: { shape: { kind: 'string' }, optional: true } },
+    });
+    expect(user.fields.friends.shape).toEqual({ kind: 'array', items: { kind: 'any' } });
+    expect(user.fields.meta.shape).toEqual({ kind: 'object', fields: { note: { shape: { kind: 'string' } } } });
+    expect(user.fields.created.shape).toEqual({ kind: 'any' });
+    expect(user.fields.loose.shape).toEqual({ kind: 'any' });
+  });
 });
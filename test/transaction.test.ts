@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { Transaction } from '../src/runtime/transaction';
+import { ConflictError } from '../src/runtime/http';
+
+describe('Transaction', () => {
+  it('sees txids committed before it began', () => {
+    const tx = new Transaction('s', 'o', 10n, [7n]);
+    expect(tx.sees(5n)).toBe(true);
+    expect(tx.sees(7n)).toBe(false);
+    expect(tx.sees(10n)).toBe(false);
+    expect(tx.sees(12n)).toBe(false);
+  });
+
+  it('sees txids up to upperTxid and refuses to write under a later visible one', () => {
+    const tx = new Transaction('s', 'o', 10n, [12n], 'default', false, 13n);
+    expect(tx.sees(11n)).toBe(true);
+    expect(tx.sees(12n)).toBe(false);
+    expect(tx.sees(13n)).toBe(true);
+    expect(tx.sees(14n)).toBe(false);
+    expect(() => tx.trackWrite('t:1', 13n)).toThrow(ConflictError);
+    tx.trackWrite('t:2', 12n);
+    tx.trackWrite('t:3', 14n);
+  });
+
+  it('ignores tracking outside snapshot isolation', async () => {
+    const tx = new Transaction('s', 'o', 10n, [7n]);
+    tx.trackRead('t:1', async () => 11n);
+    tx.trackWrite('t:2', 7n);
+    await expect(tx.validate()).resolves.toBeUndefined();
+  });
+
+  describe('snapshot isolation', () => {
+    it('passes when read records were last written inside the snapshot', async () => {
+      const tx = new Transaction('s', 'o', 10n, [], 'snapshot');
+      tx.trackRead('t:1', async () => 5n);
+      tx.trackRead('t:2', async () => null);
+      await expect(tx.validate()).resolves.toBeUndefined();
+    });
+
+    it('rejects when a read record was written in between', async () => {
+      const tx = new Transaction('s', 'o', 10n, [], 'snapshot');
+      tx.trackRead('t:1', async () => 11n);
+      await expect(tx.validate()).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('rejects when a writer in flight at begin committed since', async () => {
+      const tx = new Transaction('s', 'o', 10n, [7n], 'snapshot');
+      tx.trackRead('t:1', async () => 7n);
+      await expect(tx.validate()).rejects.toThrow('Write conflict on t:1');
+    });
+
+    it('tracks no reads in read-only transactions', async () => {
+      const tx = new Transaction('s', 'o', 10n, [], 'snapshot', true);
+      tx.trackRead('t:1', async () => 11n);
+      await expect(tx.validate()).resolves.toBeUndefined();
+    });
+
+    it('keeps the first tracker registered for a key', async () => {
+      const tx = new Transaction('s', 'o', 10n, [], 'snapshot');
+      tx.trackRead('t:1', async () => 5n);
+      tx.trackRead('t:1', async () => 12n);
+      await expect(tx.validate()).resolves.toBeUndefined();
+    });
+
+    it('rejects blind writes over concurrent writers', async () => {
+      const tx = new Transaction('s', 'o', 10n, [7n], 'snapshot');
+      tx.trackWrite('t:1', 5n);
+      tx.trackWrite('t:2', null);
+      await expect(tx.validate()).resolves.toBeUndefined();
+      tx.trackWrite('t:4', 7n);
+      await expect(tx.validate()).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('savepoints', () => {
+    function recorder() {
+      const undone: string[] = [];
+      return { undone, step: (name: string) => async () => { undone.push(name); } };
+    }
+
+    it('undoes only the writes made after the savepoint', async () => {
+      const tx = new Transaction('s', 'o', 10n);
+      const { undone, step } = recorder();
+      tx.onRollback(step('outer'));
+      const sp = tx.savepoint();
+      tx.onRollback(step('inner 1'));
+      tx.onRollback(step('inner 2'));
+      await tx.rollbackTo(sp);
+      expect(undone).toEqual(['inner 2', 'inner 1']);
+      expect(tx.pendingUndo).toBe(1);
+
+      tx.onRollback(step('retry'));
+      await tx.rollbackTo(sp);
+      expect(undone).toEqual(['inner 2', 'inner 1', 'retry']);
+      await tx.revert();
+      expect(undone).toEqual(['inner 2', 'inner 1', 'retry', 'outer']);
+    });
+
+    it('nests, and discards savepoints taken after the one rolled back to', async () => {
+      const tx = new Transaction('s', 'o', 10n);
+      const { undone, step } = recorder();
+      const outer = tx.savepoint();
+      tx.onRollback(step('a'));
+      const inner = tx.savepoint();
+      tx.onRollback(step('b'));
+      await tx.rollbackTo(inner);
+      expect(undone).toEqual(['b']);
+      await tx.rollbackTo(outer);
+      expect(undone).toEqual(['b', 'a']);
+      await expect(tx.rollbackTo(inner)).rejects.toThrow('Unknown savepoint for transaction s');
+    });
+
+    it('rejects savepoints of other or reverted transactions', async () => {
+      const tx = new Transaction('s', 'o', 10n);
+      const other = new Transaction('t', 'o', 11n);
+      await expect(tx.rollbackTo(other.savepoint())).rejects.toThrow('Unknown savepoint for transaction s');
+      const sp = tx.savepoint();
+      await tx.revert();
+      await expect(tx.rollbackTo(sp)).rejects.toThrow('Unknown savepoint');
+    });
+
+    it('forgets write conflicts of undone writes but keeps tracked reads', async () => {
+      const tx = new Transaction('s', 'o', 10n, [7n], 'snapshot');
+      tx.trackWrite('t:1', 5n);
+      const sp = tx.savepoint();
+      tx.trackWrite('t:2', 7n);
+      await expect(tx.validate()).rejects.toThrow('Write conflict on t:2');
+      await tx.rollbackTo(sp);
+      await expect(tx.validate()).resolves.toBeUndefined();
+
+      tx.trackRead('t:3', async () => 12n);
+      await tx.rollbackTo(sp);
+      await expect(tx.validate()).rejects.toThrow('Write conflict on t:3');
+    });
+  });
+});
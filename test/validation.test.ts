@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { validateShape, type TypeShape } from '../src/storage/validation';
+
+const user: TypeShape = {
+  kind: 'object',
+  fields: {
+    name: { shape: { kind: 'string' } },
+    age: { shape: { kind: 'number' } },
+    admin: { shape: { kind: 'boolean' }, optional: true },
+    tags: { shape: { kind: 'array', items: { kind: 'string' } } },
+    profile: {
+      shape: {
+        kind: 'object',
+        fields: { city: { shape: { kind: 'string' } } },
+      },
+    },
+    role: {
+      shape: {
+        kind: 'union',
+        options: [{ kind: 'literal', value: 'admin' }, { kind: 'literal', value: 'user' }, { kind: 'null' }],
+      },
+    },
+    meta: { shape: { kind: 'any' } },
+  },
+};
+
+const valid = { name: 'A', age: 3, tags: ['x'], profile: { city: 'Oslo' }, role: null, meta: 1 };
+
+describe('validateShape', () => {
+  it('accepts conforming values, optional fields and extra fields', () => {
+    expect(validateShape(user, valid)).toEqual([]);
+    expect(validateShape(user, { ...valid, admin: true, extra: 1, role: 'user' })).toEqual([]);
+  });
+
+  it('lists every offending path', () => {
+    const issues = validateShape(user, {
+      name: 1,
+      age: Number.NaN,
+      admin: 'yes',
+      tags: ['a', 2],
+      profile: { city: null },
+      role: 'root',
+    });
+    expect(issues).toEqual([
+      { path: 'name', message: 'expected string' },
+      { path: 'age', message: 'expected number' },
+      { path: 'admin', message: 'expected boolean' },
+      { path: 'tags[1]', message: 'expected string' },
+      { path: 'profile.city', message: 'expected string' },
+      { path: 'role', message: 'expected "admin" | "user" | null' },
+      { path: 'meta', message: 'is required' },
+    ]);
+  });
+
+  it('rejects wrong containers', () => {
+    expect(validateShape(user, [])).toEqual([{ path: '', message: 'expected object' }]);
+    expect(validateShape(user, { ...valid, tags: 'x', profile: [] })).toEqual([
+      { path: 'tags', message: 'expected array' },
+      { path: 'profile', message: 'expected object' },
+    ]);
+    expect(validateShape({ kind: 'null' }, 0)).toEqual([{ path: '', message: 'expected null' }]);
+    expect(validateShape({ kind: 'literal', value: 1 }, 2, 'n')).toEqual([{ path: 'n', message: 'expected 1' }]);
+  });
+});
@@ -49,7 +49,10 @@ describe('generateCleanupFunction', () => {
     expect(sql).toContain('CREATE OR REPLACE FUNCTION kontract_cleanup_old_versions');
     expect(sql).toContain('min_txid BIGINT');
     expect(sql).toContain('DELETE FROM %I WHERE _txid < %L');
-    expect(sql).toContain('GROUP BY id HAVING COUNT(*) > 1');
+    expect(sql).toContain('GROUP BY id, _owner HAVING COUNT(*) > 1');
+    expect(sql).toContain('(id, _owner, _txid) NOT IN');
+    expect(sql).toContain('SELECT id, _owner, MAX(_txid) FROM %I WHERE _txid < %L GROUP BY id, _owner');
+    expect(sql).toContain('SELECT DISTINCT ptr FROM storage');
     expect(sql).toContain('LIMIT 1000');
     expect(sql).toContain('LANGUAGE plpgsql');
   });